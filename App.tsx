@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Activity, 
   Settings, 
@@ -12,41 +12,247 @@ import {
   Zap,
   Target,
   Waves,
-  Vibrate
+  Vibrate,
+  Webhook,
+  Send,
+  Radio,
+  Gauge,
+  Flame,
+  Plus,
+  Tag,
+  AlertTriangle,
+  SlidersHorizontal,
+  Download,
+  BarChart3,
+  MicOff
 } from 'lucide-react';
-import { AudioEngine } from './services/audioEngine';
+import { AudioEngine, ReferenceCapture } from './services/audioEngine';
+import { buildOutagePayload, notifyHomeAssistant, outageEventId } from './services/haService';
+import { WebhookOutbox } from './services/webhookOutbox';
+import { MqttConfig, MqttPublisher, MqttStatus, isMqttBrokerUrl } from './services/mqttService';
+import { computeMeterReading, createCorrection, formatVolume, startOfToday } from './services/meter';
+import {
+  HISTORY_PAGE_SIZE,
+  addDetection,
+  clearDetections,
+  countDetections,
+  countSince,
+  loadDetections,
+  loadDetectionsBetween,
+  loadLabeledDetections,
+  migrateLegacyHistory,
+  pruneDetections,
+  updateDetection
+} from './services/historyStore';
+import { EnrollmentResult, EnrollmentSession } from './services/enrollment';
+import { featureTag, fingerprintBandProfile } from './services/features';
+import { DEFAULT_ANALYSIS_CONFIG, FFT_SIZES, OnsetState, findLoudestOnset, onsetRatio } from './services/dsp';
+import { SEQUENCE_FRAMES } from './services/sequence';
+import { LEGACY_TEMPLATE_ID, analysisMatches, createTemplate } from './services/settings';
+import { isCountMap, isRecordArray, loadJson, loadSettings, saveSettings } from './services/storage';
 import Visualizer from './components/Visualizer';
-import { DetectionRecord, AppSettings, AudioFrame } from './types';
+import OfflineAnalysisPanel from './components/OfflineAnalysisPanel';
+import ThresholdTuner from './components/ThresholdTuner';
+import StatsDashboard from './components/StatsDashboard';
+import ClipPlayer from './components/ClipPlayer';
+import Spectrogram from './components/Spectrogram';
+import MatchRateChart from './components/MatchRateChart';
+import { DistanceTimeline, TIMELINE_SPANS, loadTimelineBuckets, saveTimelineBuckets } from './services/timeline';
+import { registerServiceWorker } from './services/pwa';
+import { CapturedClip } from './services/clipRecorder';
+import { ClipUsage, clearClips, clipUsage, deleteClip, saveClip } from './services/clipStore';
+import { tuneThreshold } from './services/tuning';
+import { createSettingsBundle, downloadFile, historyToCsv, historyToJson, parseSettingsBundle } from './services/backup';
+import { DetectionRecord, AppSettings, AudioFrame, AudioOutage, DeliveryState, EventLabel, MatchMode, MeterCorrection, OutageReason, SoundTemplate } from './types';
 
 const MAX_CHART_POINTS = 60;
+const TIMELINE_SAVE_INTERVAL_MS = 60 * 1000;
+const MAX_NEAR_MISSES = 200;
+const RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+const CLIP_STORAGE_OPTIONS = [10, 50, 200, 500];
+const MB = 1024 * 1024;
+const MAX_OUTAGES = 50;
+
+const OUTAGE_REASON_LABELS: Record<OutageReason, string> = {
+  suspended: '音频上下文被挂起',
+  closed: '音频上下文已关闭',
+  'track-ended': '麦克风音轨已结束',
+  'device-lost': '麦克风设备已移除',
+  stalled: '分析帧中断',
+  frozen: '音频数据停滞'
+};
+
+const formatOutageDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}秒` : seconds < 3600 ? `${Math.round(seconds / 60)}分钟` : `${(seconds / 3600).toFixed(1)}小时`;
+};
+
+const DELIVERY_LABELS: Record<DeliveryState, { text: string; className: string }> = {
+  pending: { text: '待推送', className: 'bg-amber-500/20 text-amber-400' },
+  sent: { text: '已推送', className: 'bg-emerald-500/20 text-emerald-400' },
+  retrying: { text: '重试中', className: 'bg-red-500/20 text-red-400' },
+  failed: { text: '推送失败', className: 'bg-red-500/20 text-red-400' }
+};
+
+// 同一标注在检测记录与候选事件中的含义不同
+const EVENT_LABELS: Record<'detections' | 'candidates', Record<EventLabel, string>> = {
+  detections: { click: '正确', noise: '误报' },
+  candidates: { click: '漏检', noise: '噪声' }
+};
+
+const CHART_MODE_LABELS = { live: '实时', rate: '匹配率', timeline: '时间轴' } as const;
+
+const MATCH_MODE_LABELS: Record<MatchMode, string> = {
+  frame: '单帧',
+  sequence: '序列 (DTW)'
+};
+
+// 当前比对模式下模板是否已有可用的参考
+const hasReference = (t: SoundTemplate, mode: MatchMode) => mode === 'sequence' ? !!t.sequence : !!t.fingerprint;
+
+const MQTT_STATUS_LABELS: Record<MqttStatus, { text: string; className: string }> = {
+  disconnected: { text: '未连接', className: 'bg-slate-800 text-slate-500' },
+  connecting: { text: '连接中', className: 'bg-amber-500/20 text-amber-400' },
+  connected: { text: '已连接', className: 'bg-emerald-500/20 text-emerald-400' },
+  error: { text: '连接错误', className: 'bg-red-500/20 text-red-400' }
+};
+
+const mqttConfigOf = (s: AppSettings): MqttConfig => ({
+  brokerUrl: s.mqttBrokerUrl,
+  username: s.mqttUsername,
+  password: s.mqttPassword,
+  topicPrefix: s.mqttTopicPrefix
+});
 
 const App: React.FC = () => {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [isRecordingReference, setIsRecordingReference] = useState(false);
+  const [enrollTarget, setEnrollTarget] = useState(5);
+  const [enrollProgress, setEnrollProgress] = useState<number | null>(null);
+  const [enrollResult, setEnrollResult] = useState<EnrollmentResult | null>(null);
   const [wakeLock, setWakeLock] = useState<any>(null);
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    const saved = localStorage.getItem('audio_pulse_settings');
-    return saved ? JSON.parse(saved) : {
-      threshold: 0.20,
-      haWebhookUrl: '',
-      cooldownSeconds: 1.5,
-      referenceFingerprint: null
-    };
-  });
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
   
-  const [history, setHistory] = useState<DetectionRecord[]>(() => {
-    const saved = localStorage.getItem('audio_pulse_history');
-    return saved ? JSON.parse(saved) : [];
+  // 检测历史保存在 IndexedDB 中，这里只保留已加载的分页
+  const [history, setHistory] = useState<DetectionRecord[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [historyReady, setHistoryReady] = useState(false);
+  const [storedCount, setStoredCount] = useState(0);
+  const [labeledHistory, setLabeledHistory] = useState<DetectionRecord[]>([]);
+  const [todayCounts, setTodayCounts] = useState<Record<string, number>>({});
+
+  // 各模板累计触发次数，不受历史记录上限和清空操作影响
+  const [clickCounts, setClickCounts] = useState<Record<string, number>>(() => {
+    const saved = loadJson<Record<string, number> | null>('audio_pulse_click_counts', null, isCountMap);
+    if (saved) return saved;
+    const legacyTotal = Number(localStorage.getItem('audio_pulse_total_clicks')) || 0;
+    return legacyTotal ? { [LEGACY_TEMPLATE_ID]: legacyTotal } : {};
   });
+
+  // 起音附近接近阈值但未触发的候选事件，用于标注漏检
+  const [nearMisses, setNearMisses] = useState<DetectionRecord[]>(() => loadJson('audio_pulse_near_misses', [], isRecordArray));
+
+  const [meterCorrections, setMeterCorrections] = useState<MeterCorrection[]>(() =>
+    loadJson('audio_pulse_meter_corrections', [], value => isRecordArray(value) && value.every((c: any) => typeof c.offset === 'number'))
+  );
+  const [correctionInput, setCorrectionInput] = useState('');
+  // 音频管线中断记录，进行中的中断单独保存用于顶部提示
+  const [outages, setOutages] = useState<AudioOutage[]>(() =>
+    loadJson('audio_pulse_outages', [], value => Array.isArray(value) && value.every((o: any) => o && typeof o.id === 'string' && typeof o.start === 'number'))
+  );
+  const [audioOutage, setAudioOutage] = useState<AudioOutage | null>(null);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [activeInputId, setActiveInputId] = useState<string | null>(null);
+  const [openClipId, setOpenClipId] = useState<string | null>(null);
+  const [clipStorage, setClipStorage] = useState<ClipUsage>({ count: 0, bytes: 0 });
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
   
   const [chartData, setChartData] = useState<AudioFrame[]>([]);
-  const [currentDistance, setCurrentDistance] = useState(1.0);
+  const [templateDistances, setTemplateDistances] = useState<Record<string, number>>({});
+  const [templateThresholds, setTemplateThresholds] = useState<Record<string, number>>({});
   const [micLevel, setMicLevel] = useState(0);
-  const [lastDetectionTime, setLastDetectionTime] = useState(0);
-  const [activeTab, setActiveTab] = useState<'monitor' | 'history' | 'settings'>('monitor');
+  const [lastHitAt, setLastHitAt] = useState<number | null>(null);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [chartMode, setChartMode] = useState<'live' | 'rate' | 'timeline'>('live');
+  // 检测命中时读数卡片短暂脉冲
+  const [isHighlighting, setIsHighlighting] = useState(false);
+  const [timelineSpan, setTimelineSpan] = useState(TIMELINE_SPANS[1].ms);
+  const [timelineData, setTimelineData] = useState<AudioFrame[]>([]);
+  const [timelineHits, setTimelineHits] = useState<DetectionRecord[]>([]);
+  const [hoverFrame, setHoverFrame] = useState<AudioFrame | null>(null);
+  const timelineRef = useRef(new DistanceTimeline());
+  const [onsetState, setOnsetState] = useState<OnsetState | null>(null);
+  const [activeTab, setActiveTab] = useState<'monitor' | 'history' | 'analysis' | 'settings'>('monitor');
+  const [historyFilter, setHistoryFilter] = useState<string | null>(null);
+  // 从时间轴跳转到的检测记录，短暂高亮
+  const [focusedRecordId, setFocusedRecordId] = useState<string | null>(null);
+  const historyFocusRef = useRef<string | null>(null);
+  const [historyView, setHistoryView] = useState<'detections' | 'candidates' | 'stats'>('detections');
+  // 定时清理后重新加载时使用最新的筛选条件
+  const historyFilterRef = useRef(historyFilter);
+  historyFilterRef.current = historyFilter;
+  const [isSendingTest, setIsSendingTest] = useState(false);
+  const [mqttStatus, setMqttStatus] = useState<MqttStatus>('disconnected');
+  // 已应用到 MQTT 连接的配置，编辑中的值在失焦时才生效
+  const [mqttConfig, setMqttConfig] = useState(() => mqttConfigOf(settings));
 
   const audioEngineRef = useRef<AudioEngine | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const settingsFileRef = useRef<HTMLInputElement>(null);
+  const outboxRef = useRef<WebhookOutbox | null>(null);
+  const mqttRef = useRef<MqttPublisher | null>(null);
+  const enrollmentRef = useRef<EnrollmentSession | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // 发送队列使用的 Webhook 地址，只在编辑完成后更新
+  const webhookUrlRef = useRef(settings.haWebhookUrl);
+  // 引擎回调只注册一次，通过 ref 调用最新的处理函数
+  const handleFrameRef = useRef<(level: number, distances: Record<string, number>, thresholds: Record<string, number>, onset: OnsetState) => void>(() => {});
+  const handleDetectionRef = useRef<(template: SoundTemplate, distance: number, threshold: number, timestamp: number) => void>(() => {});
+  const handleCandidateRef = useRef<(template: SoundTemplate, distance: number, timestamp: number) => void>(() => {});
+  const handleClipRef = useRef<(clip: CapturedClip) => void>(() => {});
+  const handleOutageRef = useRef<(outage: AudioOutage) => void>(() => {});
+  // 片段在触发后数秒才送达，按检测时间戳找回对应的记录 ID
+  const pendingClipsRef = useRef(new Map<number, string>());
+  const engineInitRef = useRef<Promise<AudioEngine> | null>(null);
+
+  // 按当前特征参数创建并启动音频引擎
+  const createEngine = async () => {
+    const engine = new AudioEngine();
+    engine.setFeatureConfig(settingsRef.current.features);
+    engine.setAnalysisConfig(settingsRef.current.analysis);
+    engine.setInputConfig(settingsRef.current.input);
+    engine.onFrame = (level, distances, thresholds, onset) => handleFrameRef.current(level, distances, thresholds, onset);
+    engine.onDetection = (templateId, distance, threshold, timestamp) => {
+      const template = settingsRef.current.templates.find(t => t.id === templateId);
+      if (template) handleDetectionRef.current(template, distance, threshold, timestamp);
+    };
+    engine.onCandidate = (templateId, distance, timestamp) => {
+      const template = settingsRef.current.templates.find(t => t.id === templateId);
+      if (template) handleCandidateRef.current(template, distance, timestamp);
+    };
+    engine.onClip = clip => handleClipRef.current(clip);
+    engine.onOutage = outage => handleOutageRef.current(outage);
+    engine.onOpen = () => setActiveInputId(engine.inputDeviceId);
+    const { enabled, preSeconds, postSeconds } = settingsRef.current.clips;
+    engine.configureClips({ enabled, preSeconds, postSeconds });
+    await engine.init();
+    if (enabled && !engine.supportsClips) console.warn('AudioWorklet unavailable, detection clips disabled');
+    audioEngineRef.current = engine;
+    return engine;
+  };
+
+  // 初始化进行中时复用同一个 Promise，快速连续调用不会创建多个 AudioContext；失败后允许重试
+  const ensureEngine = (): Promise<AudioEngine> => {
+    if (audioEngineRef.current) return Promise.resolve(audioEngineRef.current);
+    if (!engineInitRef.current) {
+      engineInitRef.current = createEngine().finally(() => {
+        engineInitRef.current = null;
+      });
+    }
+    return engineInitRef.current;
+  };
 
   // 屏幕常亮控制 (Android 关键)
   const toggleWakeLock = async (on: boolean) => {
@@ -66,69 +272,435 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    localStorage.setItem('audio_pulse_settings', JSON.stringify(settings));
+    saveSettings(settings);
   }, [settings]);
 
   useEffect(() => {
-    localStorage.setItem('audio_pulse_history', JSON.stringify(history));
-  }, [history]);
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  // 更新会刷新页面，监听中先确认，避免漏计
+  const installUpdate = () => {
+    if (!applyUpdate) return;
+    if (isMonitoring && !confirm('更新需要刷新页面，监听会短暂中断，确定现在更新吗？')) return;
+    applyUpdate();
+  };
 
   useEffect(() => {
-    let animationId: number;
-    const tick = () => {
-      if (!audioEngineRef.current || !isMonitoring) return;
-
-      const freqData = audioEngineRef.current.getFrequencyData();
-      if (freqData.length === 0) {
-        animationId = requestAnimationFrame(tick);
-        return;
+    audioEngineRef.current?.setFeatureConfig(settings.features);
+  }, [settings.features]);
+
+  const refreshTodayCounts = () => {
+    countSince(startOfToday()).then(setTodayCounts).catch(err => console.warn('Load today counts failed', err));
+  };
+
+  // 首次启动时迁移 localStorage 中的旧历史，之后按保留期清理
+  useEffect(() => {
+    migrateLegacyHistory()
+      .catch(err => console.error('History migration failed', err))
+      .then(() => {
+        setHistoryReady(true);
+        refreshTodayCounts();
+      });
+    // 每分钟刷新今日计数，跨过零点后自动归零
+    const timer = setInterval(refreshTodayCounts, 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!historyReady) return;
+    const prune = () => pruneDetections(settings.historyRetentionDays)
+      .then(removed => removed > 0 && reloadHistory())
+      .catch(err => console.warn('History prune failed', err));
+    prune();
+    const timer = setInterval(prune, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [historyReady, settings.historyRetentionDays]);
+
+  useEffect(() => {
+    if (historyReady) reloadHistory();
+  }, [historyReady, historyFilter]);
+
+  const reloadHistory = async () => {
+    try {
+      const templateId = historyFilterRef.current;
+      const [firstPage, count, labeled] = await Promise.all([
+        loadDetections({ templateId }),
+        countDetections(),
+        loadLabeledDetections()
+      ]);
+      // 从时间轴跳转时继续往前加载，直到包含目标记录
+      let page = firstPage;
+      let hasMore = firstPage.length === HISTORY_PAGE_SIZE;
+      const focusId = historyFocusRef.current;
+      while (focusId && hasMore && !page.some(r => r.id === focusId)) {
+        const more = await loadDetections({ before: page[page.length - 1].timestamp, templateId });
+        page = [...page, ...more];
+        hasMore = more.length === HISTORY_PAGE_SIZE;
       }
+      setHistory(page);
+      setHasMoreHistory(hasMore);
+      setStoredCount(count);
+      setLabeledHistory(labeled);
+    } catch (err) {
+      console.error('Load history failed', err);
+    }
+  };
+
+  const loadMoreHistory = async () => {
+    const last = history[history.length - 1];
+    if (!last) return;
+    const page = await loadDetections({ before: last.timestamp, templateId: historyFilter });
+    setHistory(prev => [...prev, ...page]);
+    setHasMoreHistory(page.length === HISTORY_PAGE_SIZE);
+  };
 
-      // 计算实时音量
-      const sum = freqData.reduce((a, b) => a + (b + 100), 0);
-      setMicLevel(Math.min(1, (sum / freqData.length) / 80));
+  const focusDetection = (record: DetectionRecord) => {
+    historyFocusRef.current = record.id;
+    setFocusedRecordId(record.id);
+    setActiveTab('history');
+    setHistoryView('detections');
+    if (historyFilter && historyFilter !== record.templateId) setHistoryFilter(null);
+    else if (!history.some(r => r.id === record.id)) reloadHistory();
+  };
 
-      const currentFingerprint = audioEngineRef.current.getFingerprint(freqData);
-      let distance = 1.0; 
-      if (settings.referenceFingerprint) {
-        distance = audioEngineRef.current.compare(settings.referenceFingerprint, currentFingerprint);
+  useEffect(() => {
+    if (!focusedRecordId || activeTab !== 'history') return;
+    const element = document.getElementById(`record-${focusedRecordId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    historyFocusRef.current = null;
+    const timer = setTimeout(() => setFocusedRecordId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [focusedRecordId, history, activeTab]);
+
+  const clearHistory = async () => {
+    await clearDetections();
+    setHistory([]);
+    setHasMoreHistory(false);
+    setStoredCount(0);
+    setLabeledHistory([]);
+  };
+
+  // 日期按本地时区解析，结束日期包含当天
+  const exportHistory = async (format: 'csv' | 'json') => {
+    const from = exportFrom ? new Date(`${exportFrom}T00:00:00`).getTime() : -Infinity;
+    const to = exportTo ? new Date(`${exportTo}T23:59:59.999`).getTime() : Infinity;
+    if (from > to) {
+      alert("开始日期不能晚于结束日期。");
+      return;
+    }
+    const records = await loadDetectionsBetween(from, to);
+    if (records.length === 0) {
+      alert("所选时间范围内没有检测记录。");
+      return;
+    }
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(`audio_pulse_history_${stamp}.csv`, historyToCsv(records), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`audio_pulse_history_${stamp}.json`, historyToJson(records), 'application/json');
+    }
+  };
+
+  const exportSettings = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(`audio_pulse_settings_${stamp}.json`, JSON.stringify(createSettingsBundle(settings), null, 2), 'application/json');
+  };
+
+  const importSettings = async (file: File) => {
+    try {
+      const imported = parseSettingsBundle(await file.text());
+      if (!confirm(`将用备份中的 ${imported.templates.length} 个模板及全部参数覆盖当前配置，确定导入吗？`)) return;
+      setSettings(imported);
+      setMqttConfig(mqttConfigOf(imported));
+      applyWebhookUrl(imported.haWebhookUrl);
+      alert("配置导入成功！");
+    } catch (err) {
+      alert(`配置导入失败：${err instanceof Error ? err.message : '无法读取文件'}`);
+    }
+  };
+
+  // Home Assistant 推送队列：失败或离线的记录保存在 IndexedDB 中持续重试
+  useEffect(() => {
+    const outbox = new WebhookOutbox(
+      () => webhookUrlRef.current,
+      (id, state) => {
+        updateDetection(id, { delivery: state }).catch(err => console.warn('Update delivery state failed', err));
+        setHistory(prev => prev.map(r => r.id === id ? { ...r, delivery: state } : r));
       }
+    );
+    outboxRef.current = outbox;
+    outbox.start();
+    return () => {
+      outbox.stop();
+      outboxRef.current = null;
+    };
+  }, []);
+
+  // 地址输入框失焦或导入配置时才生效，避免向输入到一半的地址推送
+  const applyWebhookUrl = (url: string) => {
+    if (url === webhookUrlRef.current) return;
+    webhookUrlRef.current = url;
+    outboxRef.current?.retryNow();
+  };
+
+  useEffect(() => {
+    localStorage.setItem('audio_pulse_click_counts', JSON.stringify(clickCounts));
+  }, [clickCounts]);
+
+  useEffect(() => {
+    localStorage.setItem('audio_pulse_near_misses', JSON.stringify(nearMisses));
+  }, [nearMisses]);
+
+  useEffect(() => {
+    localStorage.setItem('audio_pulse_meter_corrections', JSON.stringify(meterCorrections));
+  }, [meterCorrections]);
+
+  useEffect(() => {
+    localStorage.setItem('audio_pulse_outages', JSON.stringify(outages));
+  }, [outages]);
+
+  // MQTT 发布：Broker 配置变化时重连
+  useEffect(() => {
+    const publisher = new MqttPublisher(setMqttStatus);
+    mqttRef.current = publisher;
+    return () => {
+      publisher.disconnect();
+      mqttRef.current = null;
+    };
+  }, []);
+
+  const applyMqttConfig = () => setMqttConfig(mqttConfigOf(settingsRef.current));
+
+  // 输入框失焦或导入配置时才应用，避免输入过程中用不完整的地址反复重连
+  useEffect(() => {
+    mqttRef.current?.configure(mqttConfig);
+  }, [mqttConfig]);
+
+  useEffect(() => {
+    // 音频中断期间不计数，对外标记为离线
+    mqttRef.current?.setAvailability(isMonitoring && !audioOutage);
+  }, [isMonitoring, audioOutage]);
+
+  const meterClicks = settings.meterTemplateId ? clickCounts[settings.meterTemplateId] || 0 : 0;
+
+  useEffect(() => {
+    mqttRef.current?.publishTotal(meterClicks * settings.volumePerClick);
+  }, [meterClicks, settings.volumePerClick]);
+
+  // 检测在 AudioWorklet 中以固定帧移运行，这里只同步模板、起音参数与开关状态
+  useEffect(() => {
+    audioEngineRef.current?.configureDetector({
+      enabled: isMonitoring,
+      matchMode: settings.matchMode,
+      features: settings.features,
+      onset: settings.onset,
+      adaptive: settings.adaptive,
+      templates: settings.templates
+    });
+  }, [isMonitoring, settings.templates, settings.features, settings.onset, settings.adaptive, settings.matchMode]);
+
+  useEffect(() => {
+    audioEngineRef.current?.setInputConfig(settings.input);
+  }, [settings.input]);
+
+  useEffect(() => {
+    audioEngineRef.current?.setAnalysisConfig(settings.analysis);
+  }, [settings.analysis]);
+
+  // 麦克风列表：未授权前浏览器不提供设备名称，开始分析后再刷新
+  const refreshInputDevices = () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    navigator.mediaDevices.enumerateDevices()
+      .then(devices => setInputDevices(devices.filter(d => d.kind === 'audioinput')))
+      .catch(err => console.warn('Enumerate devices failed', err));
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'settings') return;
+    refreshInputDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshInputDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshInputDevices);
+  }, [activeTab, isMonitoring]);
+
+  useEffect(() => {
+    const { enabled, preSeconds, postSeconds } = settings.clips;
+    audioEngineRef.current?.configureClips({ enabled, preSeconds, postSeconds });
+  }, [settings.clips.enabled, settings.clips.preSeconds, settings.clips.postSeconds]);
+
+  const refreshClipStorage = () => {
+    clipUsage().then(setClipStorage).catch(err => console.warn('Load clip usage failed', err));
+  };
+
+  useEffect(() => {
+    if (activeTab === 'settings') refreshClipStorage();
+  }, [activeTab]);
+
+  const markClips = (ids: string[], hasClip: boolean) => {
+    setHistory(prev => prev.map(r => ids.includes(r.id) ? { ...r, hasClip } : r));
+  };
+
+  const handleClip = (clip: CapturedClip) => {
+    const id = pendingClipsRef.current.get(clip.timestamp);
+    if (!id) return;
+    pendingClipsRef.current.delete(clip.timestamp);
+    saveClip(id, clip, settingsRef.current.clips.maxStorageMb * MB)
+      .then(evicted => {
+        markClips([id], true);
+        markClips(evicted, false);
+      })
+      .catch(err => console.error('Save clip failed', err));
+  };
+
+  // 引擎在中断开始、每次重试与恢复时回调；开始和恢复时各写入一次 Webhook 发送队列，离线时稍后补发
+  const handleOutage = (outage: AudioOutage) => {
+    setAudioOutage(outage.end === null ? outage : null);
+    setOutages(prev => [outage, ...prev.filter(o => o.id !== outage.id)].slice(0, MAX_OUTAGES));
+    if (settingsRef.current.haWebhookUrl && (outage.end !== null || outage.restarts === 0)) {
+      outboxRef.current?.enqueuePayload(outageEventId(outage), buildOutagePayload(outage), outage.end ?? outage.start)
+        .catch(err => console.error('Outbox enqueue failed', err));
+    }
+  };
+
+  const removeClip = async (id: string) => {
+    try {
+      await deleteClip(id);
+      markClips([id], false);
+      setOpenClipId(null);
+    } catch (err) {
+      console.error('Delete clip failed', err);
+    }
+  };
+
+  const clearAllClips = async () => {
+    if (!confirm('确定删除全部检测片段吗？检测记录本身会保留。')) return;
+    await clearClips();
+    setHistory(prev => prev.map(r => r.hasClip ? { ...r, hasClip: false } : r));
+    setOpenClipId(null);
+    refreshClipStorage();
+  };
+
+  // 片段中的咔哒声作为所属模板的新参考，模板已删除时写入当前模板
+  const promoteClip = (record: DetectionRecord, samples: Float32Array, sampleRate: number) => {
+    const template = settings.templates.find(t => t.id === record.templateId);
+    if (!confirm(`用这段录音替换「${template?.label ?? activeTemplate?.label ?? '新模板'}」的参考样本吗？`)) return;
+    try {
+      const engine = new AudioEngine();
+      engine.setFeatureConfig(settings.features);
+      engine.setAnalysisConfig(settings.analysis);
+      const capture = engine.getFingerprintFromSamples(samples, sampleRate);
+      if (template) setSettings(prev => ({ ...prev, activeTemplateId: template.id }));
+      saveReference(capture);
+      alert("已设为参考样本！");
+    } catch (err) {
+      alert(`样本解析失败：${err instanceof Error ? err.message : '无法提取特征'}`);
+    }
+  };
+
+  const handleFrame = (level: number, distances: Record<string, number>, thresholds: Record<string, number>, onset: OnsetState) => {
+    setMicLevel(level);
+    setTemplateDistances(distances);
+    setTemplateThresholds(thresholds);
+    setOnsetState(onset);
+    timelineRef.current.push(Date.now(), distances, thresholds);
 
-      setCurrentDistance(distance);
-      
+    // 检测器只在起音窗口与背景采样帧给出距离，其余帧不画点
+    const active = settingsRef.current.templates.find(t => t.id === settingsRef.current.activeTemplateId);
+    if (active && distances[active.id] !== undefined) {
       setChartData(prev => {
         const newData = [...prev, { 
           time: new Date().toLocaleTimeString([], { hour12: false, minute:'2-digit', second:'2-digit' }), 
-          distance, 
-          threshold: settings.threshold 
+          distance: distances[active.id], 
+          threshold: active.threshold,
+          adaptiveThreshold: settingsRef.current.adaptive.enabled ? thresholds[active.id] : undefined
         }];
         return newData.slice(-MAX_CHART_POINTS);
       });
+    }
+  };
 
-      const now = Date.now();
-      if (distance <= settings.threshold && (now - lastDetectionTime) > settings.cooldownSeconds * 1000) {
-        handleDetection(distance);
-        setLastDetectionTime(now);
-      }
+  // 多次录入：按检测帧移逐帧喂给录入会话，捕获够 N 次后计算中心指纹与建议阈值
+  const isEnrolling = enrollProgress !== null;
+  useEffect(() => {
+    const engine = audioEngineRef.current;
+    if (!isEnrolling || !engine) return;
+    const timer = setInterval(() => {
+      const session = enrollmentRef.current;
+      if (!session) return;
 
-      animationId = requestAnimationFrame(tick);
-    };
+      const freqData = engine.getFrequencyData();
+      if (freqData.length > 0 && session.push(freqData, Date.now())) {
+        if (navigator.vibrate) navigator.vibrate(80);
+        if (session.isComplete) {
+          setEnrollResult(session.finish());
+          setEnrollProgress(null);
+          enrollmentRef.current = null;
+          return;
+        }
+        setEnrollProgress(session.captured);
+      }
+    }, engine.hopIntervalMs);
+    return () => clearInterval(timer);
+  }, [isEnrolling]);
 
-    if (isMonitoring) {
-      animationId = requestAnimationFrame(tick);
+  const startEnrollment = async () => {
+    let engine: AudioEngine;
+    try {
+      engine = await ensureEngine();
+    } catch (err) {
+      alert("麦克风启动失败，请检查权限设置。");
+      return;
     }
-    return () => cancelAnimationFrame(animationId);
-  }, [isMonitoring, settings.referenceFingerprint, settings.threshold, lastDetectionTime]);
+    enrollmentRef.current = new EnrollmentSession(engine, enrollTarget, settings.matchMode);
+    setEnrollResult(null);
+    setEnrollProgress(0);
+  };
 
-  const handleDetection = (distance: number) => {
+  const cancelEnrollment = () => {
+    enrollmentRef.current = null;
+    setEnrollProgress(null);
+  };
+
+  const applyEnrollment = () => {
+    if (!enrollResult) return;
+    saveReference(enrollResult, enrollResult.suggestedThreshold);
+    setEnrollResult(null);
+  };
+
+  const handleDetection = (template: SoundTemplate, distance: number, threshold: number, timestamp: number) => {
     const newRecord: DetectionRecord = {
       id: Math.random().toString(36).substr(2, 9),
-      timestamp: Date.now(),
+      timestamp,
       distance,
-      threshold: settings.threshold
+      threshold,
+      templateId: template.id,
+      templateLabel: template.label
     };
+    if (settingsRef.current.haWebhookUrl) {
+      newRecord.delivery = 'pending';
+    }
     
-    setHistory(prev => [newRecord, ...prev].slice(0, 1000));
+    addDetection(newRecord).catch(err => console.error('Save detection failed', err));
+    if (settingsRef.current.clips.enabled && audioEngineRef.current?.supportsClips) {
+      const pending = pendingClipsRef.current;
+      // 录制参数中途变化时处理器会丢弃进行中的片段，过期的等待项一并清理
+      pending.forEach((_, ts) => ts < timestamp - 60 * 1000 && pending.delete(ts));
+      pending.set(timestamp, newRecord.id);
+    }
+    if (!historyFilter || historyFilter === template.id) setHistory(prev => [newRecord, ...prev]);
+    setStoredCount(prev => prev + 1);
+    setTodayCounts(prev => ({ ...prev, [template.id]: (prev[template.id] || 0) + 1 }));
+    setClickCounts(prev => ({ ...prev, [template.id]: (prev[template.id] || 0) + 1 }));
+    setLastHitAt(timestamp);
+    setIsHighlighting(true);
+    setTimeout(() => setIsHighlighting(false), 400);
+    const isMeter = template.id === settingsRef.current.meterTemplateId;
+    mqttRef.current?.publishDetection(newRecord, isMeter ? settingsRef.current.volumePerClick : 0);
+
+    if (newRecord.delivery) {
+      outboxRef.current?.enqueue(newRecord).catch(err => console.error('Outbox enqueue failed', err));
+    }
     
     // 安卓振动反馈
     if (navigator.vibrate) {
@@ -136,16 +708,191 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCandidate = (template: SoundTemplate, distance: number, timestamp: number) => {
+    const candidate: DetectionRecord = {
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp,
+      distance,
+      threshold: template.threshold,
+      templateId: template.id,
+      templateLabel: template.label
+    };
+    setNearMisses(prev => [candidate, ...prev].slice(0, MAX_NEAR_MISSES));
+  };
+
+  // 再次点击相同标注即取消
+  const toggleLabel = (view: 'detections' | 'candidates', id: string, label: EventLabel) => {
+    const update = (records: DetectionRecord[]) =>
+      records.map(r => r.id === id ? { ...r, label: r.label === label ? undefined : label } : r);
+    if (view === 'candidates') {
+      setNearMisses(update);
+      return;
+    }
+    const record = history.find(r => r.id === id);
+    if (!record) return;
+    const updated = { ...record, label: record.label === label ? undefined : label };
+    setHistory(update);
+    setLabeledHistory(prev => [...prev.filter(r => r.id !== id), ...(updated.label ? [updated] : [])]);
+    updateDetection(id, { label: updated.label }).catch(err => console.warn('Update label failed', err));
+  };
+
+  handleFrameRef.current = handleFrame;
+  handleDetectionRef.current = handleDetection;
+  handleCandidateRef.current = handleCandidate;
+  handleClipRef.current = handleClip;
+  handleOutageRef.current = handleOutage;
+
+  const meterReading = computeMeterReading(settings.initialMeterReading, meterClicks, settings.volumePerClick, meterCorrections);
+  const todayVolume = (settings.meterTemplateId ? todayCounts[settings.meterTemplateId] || 0 : 0) * settings.volumePerClick;
+
+  const activeTemplate = settings.templates.find(t => t.id === settings.activeTemplateId) || null;
+  const referenceProfile = useMemo(
+    () => activeTemplate?.fingerprint
+      ? fingerprintBandProfile(activeTemplate.fingerprint, activeTemplate.featureVersion, audioEngineRef.current?.sampleRate ?? 48000)
+      : [],
+    [activeTemplate?.fingerprint, activeTemplate?.featureVersion, isMonitoring]
+  );
+
+  // 距离曲线：启动时载入上次保存的分桶，之后定期把已结束的分桶写入 IndexedDB，页面隐藏时也保存一次
+  useEffect(() => {
+    loadTimelineBuckets()
+      .then(buckets => timelineRef.current.restore(buckets))
+      .catch(err => console.warn('Load timeline failed', err));
+    const save = () => {
+      const buckets = timelineRef.current.takeUnsaved();
+      if (buckets.length > 0) saveTimelineBuckets(buckets).catch(err => console.warn('Save timeline failed', err));
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+    const timer = setInterval(save, TIMELINE_SAVE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  // 时间轴模式下定时从距离曲线与检测历史中取当前模板的数据
+  const showTimeline = activeTab === 'monitor' && chartMode === 'timeline';
+  useEffect(() => {
+    if (!showTimeline || !activeTemplate) {
+      setTimelineData([]);
+      setTimelineHits([]);
+      return;
+    }
+    const refresh = () => {
+      const now = Date.now();
+      setTimelineData(timelineRef.current.series(activeTemplate.id, activeTemplate.threshold, settings.adaptive.enabled, timelineSpan, now));
+      loadDetectionsBetween(now - timelineSpan)
+        .then(records => setTimelineHits(records.filter(r => r.templateId === activeTemplate.id)))
+        .catch(err => console.warn('Load timeline detections failed', err));
+    };
+    refresh();
+    const timer = setInterval(refresh, 5000);
+    return () => clearInterval(timer);
+  }, [showTimeline, activeTemplate?.id, activeTemplate?.threshold, settings.adaptive.enabled, timelineSpan]);
+  const currentFeatureVersion = featureTag(settings.features);
+  const isStaleTemplate = (t: SoundTemplate) => !!t.fingerprint && t.featureVersion !== currentFeatureVersion;
+  const staleTemplates = settings.templates.filter(isStaleTemplate);
+  // 频谱参数不同的模板仍参与匹配，但距离会整体偏移
+  const isAnalysisMismatch = (t: SoundTemplate) => !!t.fingerprint && !isStaleTemplate(t) && !analysisMatches(t, settings.analysis);
+  const mismatchedTemplates = settings.templates.filter(isAnalysisMismatch);
+  const currentDistance = activeTemplate ? templateDistances[activeTemplate.id] ?? 1.0 : 1.0;
+  // 自适应模式下实际生效的阈值，未收到检测帧前沿用模板阈值
+  const effectiveThreshold = (t: SoundTemplate) => templateThresholds[t.id] ?? t.threshold;
+  // 检测记录按筛选条件从数据库分页读取，候选事件在内存中筛选
+  const filteredHistory = historyView === 'candidates'
+    ? nearMisses.filter(r => !historyFilter || r.templateId === historyFilter)
+    : history;
+  // 未筛选的检测记录按库中总数编号，其余按已加载条数编号
+  const historyTotal = historyView === 'detections' && !historyFilter ? storedCount : filteredHistory.length;
+  const tuningTemplate = settings.templates.find(t => t.id === (historyFilter ?? settings.activeTemplateId)) || null;
+  const tuning = tuningTemplate ? tuneThreshold(labeledHistory, nearMisses, tuningTemplate.id, tuningTemplate.cooldownSeconds) : null;
+
+  const updateTemplate = (id: string, patch: Partial<SoundTemplate>) => {
+    setSettings(prev => ({
+      ...prev,
+      templates: prev.templates.map(t => t.id === id ? { ...t, ...patch } : t)
+    }));
+  };
+
+  const addTemplate = () => {
+    const template = createTemplate(`声音 ${settings.templates.length + 1}`);
+    setSettings(prev => ({
+      ...prev,
+      templates: [...prev.templates, template],
+      activeTemplateId: template.id,
+      meterTemplateId: prev.meterTemplateId ?? template.id
+    }));
+  };
+
+  const deleteTemplate = (id: string) => {
+    if (!confirm('确定删除该模板吗？已有记录会保留。')) return;
+    setSettings(prev => {
+      const templates = prev.templates.filter(t => t.id !== id);
+      return {
+        ...prev,
+        templates,
+        activeTemplateId: prev.activeTemplateId === id ? templates[0]?.id ?? null : prev.activeTemplateId,
+        meterTemplateId: prev.meterTemplateId === id ? null : prev.meterTemplateId
+      };
+    });
+  };
+
+  // 样本写入当前选中的模板，尚无模板时自动新建
+  const saveReference = ({ fingerprint, sequence }: ReferenceCapture, threshold?: number) => {
+    const featureVersion = featureTag(settingsRef.current.features);
+    const analysis = settingsRef.current.analysis;
+    const patch: Partial<SoundTemplate> = threshold === undefined
+      ? { fingerprint, sequence, featureVersion, analysis }
+      : { fingerprint, sequence, featureVersion, analysis, threshold };
+    setSettings(prev => {
+      if (prev.templates.some(t => t.id === prev.activeTemplateId)) {
+        return {
+          ...prev,
+          templates: prev.templates.map(t => t.id === prev.activeTemplateId ? { ...t, ...patch } : t)
+        };
+      }
+      const template = createTemplate(`声音 ${prev.templates.length + 1}`, patch);
+      return {
+        ...prev,
+        templates: [...prev.templates, template],
+        activeTemplateId: template.id,
+        meterTemplateId: prev.meterTemplateId ?? template.id
+      };
+    });
+  };
+
+  const correctMeterReading = () => {
+    const actual = parseFloat(correctionInput);
+    if (isNaN(actual) || actual < 0) {
+      alert('请输入有效的表盘读数。');
+      return;
+    }
+    setMeterCorrections(prev => [createCorrection(actual, meterReading), ...prev]);
+    setCorrectionInput('');
+  };
+
+  const sendTestEvent = async () => {
+    setIsSendingTest(true);
+    const ok = await notifyHomeAssistant(settings.haWebhookUrl, {
+      event: 'gas_meter_test',
+      id: 'test',
+      distance: 0,
+      threshold: activeTemplate?.threshold ?? 0
+    });
+    setIsSendingTest(false);
+    alert(ok ? '测试事件发送成功！' : '测试事件发送失败，请检查地址与网络。');
+  };
+
   const toggleMonitoring = async () => {
     try {
       if (isMonitoring) {
         setIsMonitoring(false);
         await toggleWakeLock(false);
       } else {
-        if (!audioEngineRef.current) {
-          audioEngineRef.current = new AudioEngine();
-          await audioEngineRef.current.init();
-        }
+        await ensureEngine();
         setIsMonitoring(true);
         await toggleWakeLock(true);
       }
@@ -159,13 +906,13 @@ const App: React.FC = () => {
       {/* Header */}
       <header className="p-4 flex items-center justify-between border-b border-slate-800/50 bg-slate-900/80 backdrop-blur-xl z-20">
         <div className="flex items-center gap-2">
-          <div className={`p-2 rounded-lg ${isMonitoring ? 'bg-blue-500/20 text-blue-400' : 'bg-slate-800 text-slate-500'}`}>
-            <Activity className={`w-5 h-5 ${isMonitoring ? 'animate-pulse' : ''}`} />
+          <div className={`p-2 rounded-lg ${isMonitoring && audioOutage ? 'bg-amber-500/20 text-amber-400' : isMonitoring ? 'bg-blue-500/20 text-blue-400' : 'bg-slate-800 text-slate-500'}`}>
+            {isMonitoring && audioOutage ? <MicOff className="w-5 h-5" /> : <Activity className={`w-5 h-5 ${isMonitoring ? 'animate-pulse' : ''}`} />}
           </div>
           <div>
             <h1 className="text-lg font-black tracking-tight leading-none">声音统计器</h1>
-            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mt-1">
-              {isMonitoring ? '实时分析中' : '就绪'}
+            <p className={`text-[10px] font-bold uppercase tracking-widest mt-1 ${isMonitoring && audioOutage ? 'text-amber-400' : 'text-slate-500'}`}>
+              {isMonitoring ? (audioOutage ? '音频中断 · 恢复中' : '实时分析中') : '就绪'}
             </p>
           </div>
         </div>
@@ -181,6 +928,24 @@ const App: React.FC = () => {
         </button>
       </header>
 
+      {audioOutage && (
+        <div className="px-4 py-2 bg-amber-500/10 border-b border-amber-500/30 flex items-center gap-2">
+          <AlertTriangle className="w-3.5 h-3.5 text-amber-400 shrink-0" />
+          <span className="text-[10px] font-black text-amber-400 tracking-widest">
+            {OUTAGE_REASON_LABELS[audioOutage.reason]}，正在重新初始化{audioOutage.restarts > 0 ? ` (第 ${audioOutage.restarts} 次)` : ''}
+          </span>
+        </div>
+      )}
+
+      {applyUpdate && (
+        <div className="px-4 py-2 bg-blue-600/10 border-b border-blue-500/30 flex items-center justify-between">
+          <span className="text-[10px] font-black text-blue-400 tracking-widest">新版本已下载</span>
+          <button onClick={installUpdate} className="text-[10px] font-black text-white bg-blue-600 px-3 py-1 rounded-full active:scale-95 transition-all">
+            立即更新
+          </button>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-6 pb-28">
         
@@ -188,20 +953,57 @@ const App: React.FC = () => {
           <div className="space-y-6 animate-in fade-in duration-500">
             {/* 核心统计卡片 */}
             <div className="grid grid-cols-2 gap-4">
-              <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-6 flex flex-col items-center justify-center">
-                <span className="text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] mb-2">匹配总次数</span>
-                <span className="text-5xl font-mono font-black text-blue-400 tabular-nums">{history.length}</span>
+              <div className={`bg-slate-900/50 border rounded-3xl p-6 flex flex-col items-center justify-center transition-all ${isHighlighting ? 'animate-hit border-blue-500/50' : 'border-slate-800'}`}>
+                <span className="text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] mb-2">当前读数</span>
+                <span className="text-3xl font-mono font-black text-blue-400 tabular-nums">{formatVolume(meterReading)}</span>
+                <span className="text-[10px] text-slate-600 font-bold mt-1">m³</span>
               </div>
               <div className="bg-slate-900/50 border border-slate-800 rounded-3xl p-6 flex flex-col items-center justify-center">
                 <span className="text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] mb-2">当前相似度</span>
                 <span className="text-4xl font-mono font-black text-slate-200">
-                  {settings.referenceFingerprint ? `${(100 - currentDistance * 100).toFixed(0)}%` : '--'}
+                  {activeTemplate && hasReference(activeTemplate, settings.matchMode) ? `${(100 - currentDistance * 100).toFixed(0)}%` : '--'}
                 </span>
+                {activeTemplate && (
+                  <span className="text-[10px] text-slate-600 font-bold mt-1 truncate max-w-full">{activeTemplate.label}</span>
+                )}
               </div>
             </div>
 
+            <div className="grid grid-cols-3 gap-3">
+              <MeterStat label="今日用气" value={`${formatVolume(todayVolume)} m³`} />
+              <MeterStat label="累计用气" value={`${formatVolume(meterClicks * settings.volumePerClick)} m³`} />
+              <MeterStat label="触发次数" value={String(meterClicks)} />
+            </div>
+
+            {settings.templates.length > 1 && (
+              <div className="space-y-2">
+                {settings.templates.map(t => {
+                  const distance = templateDistances[t.id] ?? 1.0;
+                  return (
+                    <button 
+                      key={t.id} 
+                      onClick={() => setSettings({...settings, activeTemplateId: t.id})}
+                      className={`w-full p-4 rounded-2xl border flex items-center justify-between transition-all ${t.id === settings.activeTemplateId ? 'bg-blue-600/10 border-blue-500/40' : 'bg-slate-900/50 border-slate-800/50'}`}
+                    >
+                      <div className="text-left">
+                        <p className="text-xs font-black text-slate-300 flex items-center gap-1.5">
+                          <Tag className="w-3 h-3 text-blue-500" /> {t.label}
+                        </p>
+                        <p className="text-[10px] text-slate-500 font-mono">
+                          今日 {todayCounts[t.id] || 0} · 累计 {clickCounts[t.id] || 0}
+                        </p>
+                      </div>
+                      <span className={`text-sm font-mono font-black ${distance <= effectiveThreshold(t) ? 'text-blue-400' : 'text-slate-500'}`}>
+                        {hasReference(t, settings.matchMode) ? `${(100 - distance * 100).toFixed(0)}%` : '--'}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             {/* 实时分析区域 */}
-            <section className={`p-6 rounded-[2.5rem] border transition-all duration-300 ${currentDistance <= settings.threshold ? 'bg-blue-600/10 border-blue-500/50 ring-4 ring-blue-500/10' : 'bg-slate-900/30 border-slate-800'}`}>
+            <section className={`p-6 rounded-[2.5rem] border transition-all duration-300 ${activeTemplate && currentDistance <= effectiveThreshold(activeTemplate) ? 'bg-blue-600/10 border-blue-500/50 ring-4 ring-blue-500/10' : 'bg-slate-900/30 border-slate-800'}`}>
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
                   <Waves className="w-4 h-4 text-blue-500" /> 分析图谱
@@ -211,7 +1013,57 @@ const App: React.FC = () => {
                 )}
               </div>
               
-              <Visualizer data={chartData} threshold={settings.threshold} />
+              <div className="flex justify-between items-center mb-4">
+                <div className="flex bg-slate-950 rounded-full border border-slate-800 p-0.5">
+                  {(['live', 'rate', 'timeline'] as const).map(mode => (
+                    <button 
+                      key={mode}
+                      onClick={() => setChartMode(mode)}
+                      className={`px-3 py-1 rounded-full text-[9px] font-black ${chartMode === mode ? 'bg-blue-600 text-white' : 'text-slate-500'}`}
+                    >
+                      {CHART_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                {chartMode === 'timeline' && (
+                  <div className="flex gap-1">
+                    {TIMELINE_SPANS.map(span => (
+                      <button 
+                        key={span.ms}
+                        onClick={() => setTimelineSpan(span.ms)}
+                        className={`px-2 py-1 rounded-full text-[9px] font-black border ${timelineSpan === span.ms ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'text-slate-500 border-slate-800'}`}
+                      >
+                        {span.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {chartMode === 'live' ? (
+                <Visualizer data={chartData} threshold={activeTemplate?.threshold ?? 0} />
+              ) : chartMode === 'rate' ? (
+                <MatchRateChart data={chartData} threshold={activeTemplate?.threshold ?? 0} />
+              ) : (
+                <>
+                  <Visualizer 
+                    data={timelineData} 
+                    threshold={activeTemplate?.threshold ?? 0} 
+                    timeline
+                    markers={timelineHits.map(r => ({ id: r.id, timestamp: r.timestamp, distance: r.distance }))}
+                    onMarkerClick={(id) => {
+                      const record = timelineHits.find(r => r.id === id);
+                      if (record) focusDetection(record);
+                    }}
+                    onPointHover={setHoverFrame}
+                  />
+                  <p className="mt-3 text-[10px] font-mono text-slate-500 text-center h-4">
+                    {hoverFrame?.timestamp !== undefined
+                      ? `${new Date(hoverFrame.timestamp).toLocaleString()} · 距离 ${(hoverFrame.distance * 100).toFixed(1)}%`
+                      : timelineData.length === 0 ? '开始分析后记录本次运行的距离曲线' : '拖动底部滑块缩放与平移，点击红点查看检测记录'}
+                  </p>
+                </>
+              )}
               
               <div className="mt-6 space-y-3">
                 <div className="flex justify-between text-[10px] font-black text-slate-500 uppercase">
@@ -224,7 +1076,40 @@ const App: React.FC = () => {
               </div>
             </section>
 
-            {!settings.referenceFingerprint && (
+            <section className="p-6 rounded-[2.5rem] border bg-slate-900/30 border-slate-800 space-y-4">
+              <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                <BarChart3 className="w-4 h-4 text-blue-500" /> 频谱瀑布
+              </h3>
+              <Spectrogram 
+                engine={audioEngineRef.current}
+                active={isMonitoring}
+                profile={referenceProfile}
+                featureRange={[settings.features.minFreq, settings.features.maxFreq]}
+                lastHitAt={lastHitAt}
+              />
+            </section>
+
+            {staleTemplates.length > 0 && (
+              <div className="p-6 bg-amber-500/10 border border-amber-500/20 rounded-3xl flex items-center gap-4">
+                <AlertTriangle className="w-10 h-10 text-amber-500 shrink-0" />
+                <div>
+                  <p className="text-amber-200 text-sm font-black">{staleTemplates.length} 个模板需重新录入</p>
+                  <p className="text-amber-200/60 text-xs">样本的特征版本与当前特征参数不一致，这些模板暂不参与匹配。</p>
+                </div>
+              </div>
+            )}
+
+            {mismatchedTemplates.length > 0 && (
+              <div className="p-6 bg-amber-500/10 border border-amber-500/20 rounded-3xl flex items-center gap-4">
+                <AlertTriangle className="w-10 h-10 text-amber-500 shrink-0" />
+                <div>
+                  <p className="text-amber-200 text-sm font-black">{mismatchedTemplates.length} 个模板的频谱参数已变化</p>
+                  <p className="text-amber-200/60 text-xs">样本录入时的 FFT 点数或平滑系数与当前设置不同，匹配距离可能偏大，建议重新录入。</p>
+                </div>
+              </div>
+            )}
+
+            {!settings.templates.some(t => hasReference(t, settings.matchMode)) && (
               <div className="p-6 bg-blue-600/10 border border-blue-500/20 rounded-3xl flex items-center gap-4">
                 <Target className="w-10 h-10 text-blue-500 shrink-0" />
                 <div>
@@ -240,47 +1125,181 @@ const App: React.FC = () => {
           <div className="space-y-4 animate-in slide-in-from-bottom-4 duration-300">
             <div className="flex items-center justify-between px-2">
               <h2 className="text-xl font-black">统计记录</h2>
-              <button onClick={() => setHistory([])} className="text-xs text-red-500 font-bold flex items-center gap-1 opacity-60 hover:opacity-100">
-                <Trash2 className="w-3.5 h-3.5" /> 清空
-              </button>
+              {historyView !== 'stats' && (
+                <button onClick={() => historyView === 'detections' ? clearHistory() : setNearMisses([])} className="text-xs text-red-500 font-bold flex items-center gap-1 opacity-60 hover:opacity-100">
+                  <Trash2 className="w-3.5 h-3.5" /> 清空
+                </button>
+              )}
             </div>
-            
-            {history.length === 0 ? (
-              <div className="py-20 text-center opacity-20">
-                <HistoryIcon className="w-16 h-16 mx-auto mb-4" />
-                <p className="font-bold text-sm tracking-widest uppercase">暂无匹配记录</p>
-              </div>
+
+            <div className="flex gap-2 px-2">
+              <FilterChip active={historyView === 'stats'} onClick={() => setHistoryView('stats')} label="用气统计" />
+              <FilterChip active={historyView === 'detections'} onClick={() => setHistoryView('detections')} label={`检测记录 ${storedCount}`} />
+              <FilterChip active={historyView === 'candidates'} onClick={() => setHistoryView('candidates')} label={`候选事件 ${nearMisses.length}`} />
+            </div>
+
+            {historyView === 'stats' ? (
+              <StatsDashboard 
+                templates={settings.templates}
+                initialTemplateId={settings.meterTemplateId ?? settings.activeTemplateId}
+                meterTemplateId={settings.meterTemplateId}
+                volumePerClick={settings.volumePerClick}
+                refreshKey={storedCount}
+              />
             ) : (
-              <div className="space-y-2">
-                {history.map((item, idx) => (
-                  <div key={item.id} className="bg-slate-900/50 p-4 rounded-2xl border border-slate-800/50 flex items-center justify-between">
-                    <div className="flex items-center gap-4">
-                      <div className="w-10 h-10 bg-blue-500/10 rounded-full flex items-center justify-center text-blue-400 font-mono text-xs font-black">
-                        #{history.length - idx}
-                      </div>
-                      <div>
-                        <p className="text-xs font-black text-slate-300">触发成功</p>
-                        <p className="text-[10px] text-slate-500 font-mono">
-                          {new Date(item.timestamp).toLocaleString()}
-                        </p>
+              <>
+                {settings.templates.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto no-scrollbar px-2">
+                    <FilterChip active={historyFilter === null} onClick={() => setHistoryFilter(null)} label="全部" />
+                    {settings.templates.map(t => (
+                      <FilterChip 
+                        key={t.id} 
+                        active={historyFilter === t.id} 
+                        onClick={() => setHistoryFilter(t.id)} 
+                        label={t.label} 
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {tuningTemplate && (
+                  <ThresholdTuner 
+                    template={tuningTemplate} 
+                    result={tuning} 
+                    onApply={(threshold, cooldownSeconds) => updateTemplate(tuningTemplate.id, { threshold, cooldownSeconds })} 
+                  />
+                )}
+
+                {historyView === 'candidates' && (
+                  <p className="text-[10px] text-slate-500 leading-relaxed px-2">
+                    候选事件是起音附近与模板接近、但未达到阈值的声音。若其实是一次咔哒，请标注为漏检。
+                  </p>
+                )}
+                
+                {filteredHistory.length === 0 ? (
+                  <div className="py-20 text-center opacity-20">
+                    <HistoryIcon className="w-16 h-16 mx-auto mb-4" />
+                    <p className="font-bold text-sm tracking-widest uppercase">暂无匹配记录</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {filteredHistory.map((item, idx) => (
+                      <div key={item.id} id={`record-${item.id}`} className={`bg-slate-900/50 p-4 rounded-2xl border space-y-3 transition-all ${focusedRecordId === item.id ? 'border-blue-500/60 ring-4 ring-blue-500/10' : 'border-slate-800/50'}`}>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-4">
+                            <div className="w-10 h-10 bg-blue-500/10 rounded-full flex items-center justify-center text-blue-400 font-mono text-xs font-black">
+                              #{historyTotal - idx}
+                            </div>
+                            <div>
+                              <p className="text-xs font-black text-slate-300">{item.templateLabel}</p>
+                              <p className="text-[10px] text-slate-500 font-mono">
+                                {new Date(item.timestamp).toLocaleString()}
+                              </p>
+                              {historyView === 'detections' && item.hasClip && (
+                                <button 
+                                  onClick={() => setOpenClipId(openClipId === item.id ? null : item.id)}
+                                  className={`mt-1 text-[9px] px-2 py-0.5 rounded-full font-bold border flex items-center gap-1 transition-all ${openClipId === item.id ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'text-slate-500 border-slate-800'}`}
+                                >
+                                  <FileAudio className="w-3 h-3" /> 片段
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <span className="text-sm font-mono font-black text-blue-400">{(100 - item.distance * 100).toFixed(0)}%</span>
+                            <p className="text-[9px] text-slate-600 font-bold uppercase">置信度</p>
+                            {item.delivery && (
+                              <span className={`inline-block mt-1 text-[9px] px-2 py-0.5 rounded-full font-bold ${DELIVERY_LABELS[item.delivery].className}`}>
+                                {DELIVERY_LABELS[item.delivery].text}
+                              </span>
+                            )}
+                            <div className="flex gap-1 mt-1 justify-end">
+                              {(['click', 'noise'] as EventLabel[]).map(label => (
+                                <button 
+                                  key={label}
+                                  onClick={() => toggleLabel(historyView, item.id, label)}
+                                  className={`text-[9px] px-2 py-0.5 rounded-full font-bold border transition-all ${item.label === label ? (label === 'click' ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/40' : 'bg-red-500/20 text-red-400 border-red-500/40') : 'text-slate-600 border-slate-800'}`}
+                                >
+                                  {EVENT_LABELS[historyView][label]}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                        {historyView === 'detections' && openClipId === item.id && (
+                          <ClipPlayer 
+                            recordId={item.id}
+                            onDelete={() => removeClip(item.id)}
+                            onPromote={(samples, sampleRate) => promoteClip(item, samples, sampleRate)}
+                          />
+                        )}
                       </div>
-                    </div>
-                    <div className="text-right">
-                      <span className="text-sm font-mono font-black text-blue-400">{(100 - item.distance * 100).toFixed(0)}%</span>
-                      <p className="text-[9px] text-slate-600 font-bold uppercase">置信度</p>
-                    </div>
+                    ))}
+                    {historyView === 'detections' && hasMoreHistory && (
+                      <button onClick={loadMoreHistory} className="w-full py-3 text-xs font-black text-slate-500 bg-slate-900/50 rounded-2xl border border-slate-800/50">
+                        加载更多
+                      </button>
+                    )}
                   </div>
-                ))}
-              </div>
+                )}
+              </>
             )}
           </div>
         )}
 
+        {/* 切换页面时保留离线分析结果 */}
+        <div className={activeTab === 'analysis' ? '' : 'hidden'}>
+          <OfflineAnalysisPanel settings={settings} />
+        </div>
+
         {activeTab === 'settings' && (
           <div className="space-y-8 animate-in slide-in-from-bottom-4 duration-300">
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                  <Tag className="w-4 h-4" /> 声音模板
+                </h3>
+                <button onClick={addTemplate} className="text-xs text-blue-400 font-bold flex items-center gap-1">
+                  <Plus className="w-3.5 h-3.5" /> 新建
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 p-1 bg-slate-950 rounded-2xl border border-slate-800">
+                {(Object.keys(MATCH_MODE_LABELS) as MatchMode[]).map(mode => (
+                  <button 
+                    key={mode}
+                    onClick={() => setSettings({...settings, matchMode: mode})}
+                    className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${settings.matchMode === mode ? 'bg-blue-600 text-white' : 'text-slate-500'}`}
+                  >
+                    {MATCH_MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                {settings.matchMode === 'sequence'
+                  ? '序列模式比较一段约 200ms 的频谱变化，能区分咔哒声与音色相近的持续噪声。'
+                  : '单帧模式只比较某一时刻的频谱，计算量最小。'}
+              </p>
+
+              {settings.templates.length === 0 ? (
+                <p className="text-[10px] text-slate-600 leading-relaxed">尚无模板，录制或上传样本时会自动创建。</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {settings.templates.map(t => (
+                    <FilterChip 
+                      key={t.id} 
+                      active={t.id === settings.activeTemplateId} 
+                      onClick={() => setSettings({...settings, activeTemplateId: t.id})} 
+                      label={`${t.label}${!hasReference(t, settings.matchMode) ? ' (未录入)' : isStaleTemplate(t) ? ' (需重新录入)' : isAnalysisMismatch(t) ? ' (参数已变化)' : ''}`} 
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+
             <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-6">
               <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
-                <Mic className="w-4 h-4" /> 样本录入
+                <Mic className="w-4 h-4" /> 样本录入{activeTemplate ? ` · ${activeTemplate.label}` : ''}
               </h3>
               
               <div className="flex flex-col items-center py-4">
@@ -295,18 +1314,27 @@ const App: React.FC = () => {
               <div className="grid grid-cols-2 gap-4">
                 <button 
                   onClick={async () => {
-                    if (!audioEngineRef.current) {
-                      audioEngineRef.current = new AudioEngine();
-                      await audioEngineRef.current.init();
+                    let engine: AudioEngine;
+                    try {
+                      engine = await ensureEngine();
+                    } catch (err) {
+                      alert("麦克风启动失败，请检查权限设置。");
+                      return;
                     }
                     setIsRecordingReference(true);
-                    setTimeout(() => {
-                      const freqData = audioEngineRef.current!.getFrequencyData();
-                      const fp = audioEngineRef.current!.getFingerprint(freqData);
-                      setSettings({...settings, referenceFingerprint: fp});
+                    // 录制约 1.5 秒的频谱帧，从中截取最强起音处的指纹与序列
+                    const frames: Float32Array[] = [];
+                    const startedAt = Date.now();
+                    const timer = setInterval(() => {
+                      frames.push(engine.getFrequencyData());
+                      if (Date.now() - startedAt < 1500) return;
+                      clearInterval(timer);
+                      const onset = findLoudestOnset(frames);
+                      const start = onset >= 0 ? onset : Math.max(0, frames.length - SEQUENCE_FRAMES);
+                      saveReference(engine.captureReference(frames, start));
                       setIsRecordingReference(false);
                       if (navigator.vibrate) navigator.vibrate(200);
-                    }, 1500);
+                    }, engine.hopIntervalMs);
                   }}
                   disabled={isRecordingReference}
                   className="bg-blue-600 text-white py-4 rounded-3xl font-black text-[10px] uppercase tracking-widest active:scale-95 transition-all shadow-xl shadow-blue-600/20"
@@ -320,46 +1348,545 @@ const App: React.FC = () => {
                   上传文件
                 </button>
               </div>
+              <div className="pt-2 border-t border-slate-800 space-y-4">
+                <div className="flex justify-between items-end">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">多次录入 (取平均)</label>
+                  <span className="text-xl font-mono font-black text-blue-400">{enrollTarget} 次</span>
+                </div>
+                <input 
+                  type="range" min="3" max="10" step="1" 
+                  value={enrollTarget} 
+                  disabled={isEnrolling}
+                  onChange={(e) => setEnrollTarget(parseInt(e.target.value))}
+                  className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+                />
+                {enrollProgress === null ? (
+                  <button 
+                    onClick={startEnrollment}
+                    className="w-full bg-slate-800 text-slate-300 py-4 rounded-3xl font-black text-[10px] uppercase tracking-widest active:scale-95 transition-all border border-slate-700"
+                  >
+                    开始多次录入
+                  </button>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="h-1.5 bg-slate-950 rounded-full overflow-hidden border border-slate-800">
+                      <div className="h-full bg-red-500 transition-all" style={{ width: `${(enrollProgress / enrollTarget) * 100}%` }} />
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-[10px] font-black text-red-400 uppercase tracking-widest animate-pulse">
+                        等待咔哒声 {enrollProgress}/{enrollTarget}
+                      </span>
+                      <button onClick={cancelEnrollment} className="text-xs text-slate-500 font-bold">取消</button>
+                    </div>
+                  </div>
+                )}
+
+                {enrollResult && (
+                  <div className="p-4 bg-slate-950 rounded-3xl border border-slate-800 space-y-4">
+                    <div className="grid grid-cols-3 gap-3">
+                      <MeterStat label="质量" value={`${(enrollResult.quality * 100).toFixed(0)}%`} />
+                      <MeterStat label="样本离散" value={`${(enrollResult.spread * 100).toFixed(1)}%`} />
+                      <MeterStat label="背景距离" value={`${(enrollResult.noiseDistance * 100).toFixed(1)}%`} />
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-relaxed">
+                      共 {enrollResult.samples} 个样本，最远样本距离 {(enrollResult.maxSpread * 100).toFixed(1)}%，
+                      建议阈值 <span className="text-blue-400 font-black">{(enrollResult.suggestedThreshold * 100).toFixed(0)}%</span>。
+                      {enrollResult.quality < 0.5 && ' 样本与背景区分度较低，建议在更安静的环境下重新录入。'}
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button onClick={() => setEnrollResult(null)} className="bg-slate-800 text-slate-300 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest border border-slate-700">
+                        放弃
+                      </button>
+                      <button onClick={applyEnrollment} className="bg-blue-600 text-white py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest">
+                        保存样本
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               <input ref={fileInputRef} type="file" className="hidden" accept="audio/*" onChange={async (e) => {
                 const file = e.target.files?.[0];
                 if (!file) return;
-                const buffer = await file.arrayBuffer();
-                const engine = new AudioEngine();
-                const fp = await engine.getFingerprintFromBuffer(buffer);
-                setSettings({...settings, referenceFingerprint: fp});
-                alert("样本解析成功！");
+                e.target.value = '';
+                try {
+                  const buffer = await file.arrayBuffer();
+                  const engine = new AudioEngine();
+                  engine.setFeatureConfig(settings.features);
+                  engine.setAnalysisConfig(settings.analysis);
+                  saveReference(await engine.getFingerprintFromBuffer(buffer));
+                  alert("样本解析成功！");
+                } catch (err) {
+                  alert(`样本解析失败：${err instanceof Error ? err.message : '无法解码该音频文件'}`);
+                }
               }} />
             </section>
 
+            {activeTemplate && (
+              <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-8 space-y-8">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                    <Settings className="w-4 h-4" /> 分析参数
+                  </h3>
+                  <button onClick={() => deleteTemplate(activeTemplate.id)} className="text-xs text-red-500 font-bold flex items-center gap-1 opacity-60 hover:opacity-100">
+                    <Trash2 className="w-3.5 h-3.5" /> 删除模板
+                  </button>
+                </div>
+
+                <TextField label="模板名称" value={activeTemplate.label} placeholder="例如：燃气表咔哒"
+                  onChange={(v) => updateTemplate(activeTemplate.id, { label: v })} />
+
+                {isStaleTemplate(activeTemplate) && (
+                  <p className="text-[10px] text-amber-400 font-bold leading-relaxed flex items-start gap-2">
+                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                    该样本使用旧的特征版本 ({activeTemplate.featureVersion})，请重新录入后才能参与匹配。
+                  </p>
+                )}
+                {isAnalysisMismatch(activeTemplate) && (
+                  <p className="text-[10px] text-amber-400 font-bold leading-relaxed flex items-start gap-2">
+                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                    该样本录入时使用 FFT {(activeTemplate.analysis ?? DEFAULT_ANALYSIS_CONFIG).fftSize} 点、平滑 {(activeTemplate.analysis ?? DEFAULT_ANALYSIS_CONFIG).smoothing}，与当前设置不同，建议重新录入。
+                  </p>
+                )}
+                
+                <div className="space-y-6">
+                  <div className="flex justify-between items-end">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">触发阈值 (数值越低越灵敏)</label>
+                    <span className="text-xl font-mono font-black text-blue-400">{(activeTemplate.threshold * 100).toFixed(0)}%</span>
+                  </div>
+                  <input 
+                    type="range" min="0.05" max="0.5" step="0.01" 
+                    value={activeTemplate.threshold} 
+                    onChange={(e) => updateTemplate(activeTemplate.id, { threshold: parseFloat(e.target.value) })}
+                    className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+                  />
+                </div>
+
+                <div className="space-y-6">
+                  <div className="flex justify-between items-end">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">匹配冷却 (秒)</label>
+                    <span className="text-xl font-mono font-black text-blue-400">{activeTemplate.cooldownSeconds}s</span>
+                  </div>
+                  <input 
+                    type="range" min="0.5" max="10" step="0.5" 
+                    value={activeTemplate.cooldownSeconds} 
+                    onChange={(e) => updateTemplate(activeTemplate.id, { cooldownSeconds: parseFloat(e.target.value) })}
+                    className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+                  />
+                </div>
+
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">计入燃气表读数</span>
+                  <input 
+                    type="checkbox" 
+                    checked={settings.meterTemplateId === activeTemplate.id}
+                    onChange={(e) => setSettings({...settings, meterTemplateId: e.target.checked ? activeTemplate.id : null})}
+                    className="w-5 h-5 accent-blue-500"
+                  />
+                </label>
+              </section>
+            )}
+
             <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-8 space-y-8">
               <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
-                <Settings className="w-4 h-4" /> 分析参数
+                <Mic className="w-4 h-4" /> 音频输入
               </h3>
-              
-              <div className="space-y-6">
-                <div className="flex justify-between items-end">
-                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">触发阈值 (数值越低越灵敏)</label>
-                  <span className="text-xl font-mono font-black text-blue-400">{(settings.threshold * 100).toFixed(0)}%</span>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">麦克风</label>
+                <select
+                  value={settings.input.deviceId}
+                  onChange={(e) => setSettings({...settings, input: {...settings.input, deviceId: e.target.value}})}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs font-mono text-slate-200 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">系统默认</option>
+                  {inputDevices.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+                    <option key={d.deviceId} value={d.deviceId}>{d.label || `麦克风 ${i + 1}`}</option>
+                  ))}
+                  {settings.input.deviceId && !inputDevices.some(d => d.deviceId === settings.input.deviceId) && (
+                    <option value={settings.input.deviceId}>已保存的设备 (未连接)</option>
+                  )}
+                </select>
+                {settings.input.deviceId && activeInputId && activeInputId !== settings.input.deviceId && (
+                  <p className="text-[10px] text-amber-400 font-bold leading-relaxed flex items-start gap-2">
+                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                    所选麦克风当前不可用，正在使用系统默认设备，重新接入后自动切换回来。
+                  </p>
+                )}
+              </div>
+
+              <RangeField label="输入增益" unit="dB" min={-12} max={30} step={1} value={settings.input.gainDb}
+                onChange={(v) => setSettings({...settings, input: {...settings.input, gainDb: v}})} />
+
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">带通滤波</span>
+                <input 
+                  type="checkbox" 
+                  checked={settings.input.bandPass}
+                  onChange={(e) => setSettings({...settings, input: {...settings.input, bandPass: e.target.checked}})}
+                  className="w-5 h-5 accent-blue-500"
+                />
+              </label>
+              {settings.input.bandPass && (
+                <>
+                  <RangeField label="低切" unit="Hz" min={50} max={2000} step={50} value={settings.input.lowCutHz}
+                    onChange={(v) => setSettings({...settings, input: {...settings.input, lowCutHz: Math.min(v, settings.input.highCutHz - 100)}})} />
+                  <RangeField label="高切" unit="Hz" min={1000} max={16000} step={500} value={settings.input.highCutHz}
+                    onChange={(v) => setSettings({...settings, input: {...settings.input, highCutHz: Math.max(v, settings.input.lowCutHz + 100)}})} />
+                </>
+              )}
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                增益与滤波作用于频谱分析、检测与片段录制之前，适合灵敏度低的 USB 麦克风或噪声较多的安装位置。修改增益或滤波后，已录入的样本可能需要重新录入。开始分析并授权麦克风后才会显示设备名称。
+              </p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-8 space-y-8">
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                <Waves className="w-4 h-4" /> 起音检测
+              </h3>
+
+              <RangeField label="起音灵敏度" min={1} max={10} step={1} value={settings.onset.sensitivity}
+                onChange={(v) => setSettings({...settings, onset: {...settings.onset, sensitivity: v}})} />
+              <RangeField label="噪声底下限" unit="dB" min={-90} max={-20} step={1} value={settings.onset.minFloorDb}
+                onChange={(v) => setSettings({...settings, onset: {...settings.onset, minFloorDb: v}})} />
+
+              {isMonitoring && onsetState ? (
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  {[
+                    { label: '当前通量', db: onsetState.flux },
+                    { label: '噪声底', db: onsetState.noiseFloor },
+                    { label: '触发线', db: onsetState.noiseFloor + 20 * Math.log10(onsetRatio(settings.onset.sensitivity)) }
+                  ].map(({ label, db }) => (
+                    <div key={label} className="bg-slate-950 border border-slate-800 rounded-2xl p-3">
+                      <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mb-1">{label}</p>
+                      <p className="text-sm font-mono font-black text-slate-300">{db.toFixed(0)} dB</p>
+                    </div>
+                  ))}
                 </div>
+              ) : (
+                <p className="text-[9px] text-slate-600 leading-relaxed">开始监听后显示实时跟踪的噪声底。</p>
+              )}
+              <p className="text-[9px] text-slate-600 leading-relaxed">仅当频谱通量高出噪声底时才进行指纹比对，持续的嗡嗡声或说话声不会被计数。</p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-8 space-y-8">
+              <label className="flex items-center justify-between cursor-pointer">
+                <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                  <Target className="w-4 h-4" /> 自适应阈值
+                </h3>
                 <input 
-                  type="range" min="0.05" max="0.5" step="0.01" 
-                  value={settings.threshold} 
-                  onChange={(e) => setSettings({...settings, threshold: parseFloat(e.target.value)})}
-                  className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+                  type="checkbox" 
+                  checked={settings.adaptive.enabled}
+                  onChange={(e) => setSettings({...settings, adaptive: {...settings.adaptive, enabled: e.target.checked}})}
+                  className="w-5 h-5 accent-blue-500"
                 />
+              </label>
+
+              {settings.adaptive.enabled && (
+                <>
+                  <RangeField label="低于背景的标准差倍数" unit="σ" min={1} max={6} step={0.5} value={settings.adaptive.deviations}
+                    onChange={(v) => setSettings({...settings, adaptive: {...settings.adaptive, deviations: v}})} />
+                  {isMonitoring && activeTemplate && (
+                    <div className="flex justify-between text-[10px] font-black text-slate-500">
+                      <span>{activeTemplate.label} 当前生效阈值</span>
+                      <span className="font-mono text-amber-400">{(effectiveThreshold(activeTemplate) * 100).toFixed(0)}%</span>
+                    </div>
+                  )}
+                </>
+              )}
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                跟踪非命中时段与模板的距离分布，锅炉、洗衣机等背景声接近模板时自动收紧阈值；背景安静时沿用模板的固定阈值。
+              </p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-8 space-y-8">
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                <SlidersHorizontal className="w-4 h-4" /> 高级分析参数
+              </h3>
+
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">FFT 点数</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {FFT_SIZES.map(size => (
+                    <button 
+                      key={size}
+                      onClick={() => setSettings({...settings, analysis: {...settings.analysis, fftSize: size}})}
+                      className={`py-2 rounded-xl text-[10px] font-black border transition-all ${settings.analysis.fftSize === size ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'bg-slate-950 text-slate-500 border-slate-800'}`}
+                    >
+                      {size}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <RangeField label="频谱平滑" min={0} max={0.9} step={0.05} value={settings.analysis.smoothing}
+                onChange={(v) => setSettings({...settings, analysis: {...settings.analysis, smoothing: v}})} />
+
+              <RangeField label="频率下限" unit="Hz" min={50} max={2000} step={50} value={settings.features.minFreq}
+                onChange={(v) => setSettings({...settings, features: {...settings.features, minFreq: Math.min(v, settings.features.maxFreq - 500)}})} />
+              <RangeField label="频率上限" unit="Hz" min={2000} max={16000} step={500} value={settings.features.maxFreq}
+                onChange={(v) => setSettings({...settings, features: {...settings.features, maxFreq: Math.max(v, settings.features.minFreq + 500)}})} />
+              <RangeField label="Mel 频带数" min={16} max={64} step={4} value={settings.features.melBands}
+                onChange={(v) => setSettings({...settings, features: {...settings.features, melBands: v, coefficients: Math.min(settings.features.coefficients, v - 1)}})} />
+              <RangeField label="MFCC 系数个数" min={8} max={24} step={1} value={settings.features.coefficients}
+                onChange={(v) => setSettings({...settings, features: {...settings.features, coefficients: Math.min(v, settings.features.melBands - 1)}})} />
+
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">附加差分特征 (Δ)</span>
+                <input 
+                  type="checkbox" 
+                  checked={settings.features.deltas}
+                  onChange={(e) => setSettings({...settings, features: {...settings.features, deltas: e.target.checked}})}
+                  className="w-5 h-5 accent-blue-500"
+                />
+              </label>
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                FFT 点数越大频率分辨率越高、时间分辨率越低，修改后音频管线会立即重建。修改频率范围、频带数或系数后，已有样本需要重新录入；修改 FFT 点数或平滑系数后样本仍可匹配，但建议重新录入。
+              </p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-4">
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                <HistoryIcon className="w-4 h-4" /> 数据保留
+              </h3>
+              <div className="grid grid-cols-5 gap-2">
+                {RETENTION_OPTIONS.map(days => (
+                  <button 
+                    key={days}
+                    onClick={() => setSettings({...settings, historyRetentionDays: days})}
+                    className={`py-2 rounded-xl text-[10px] font-black border transition-all ${settings.historyRetentionDays === days ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'bg-slate-950 text-slate-500 border-slate-800'}`}
+                  >
+                    {days ? `${days}天` : '永久'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                已保存 {storedCount} 条原始检测记录。超过保留期的记录会被自动清理，按小时汇总的次数始终保留，用于用气统计。
+              </p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-8 space-y-8">
+              <label className="flex items-center justify-between cursor-pointer">
+                <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                  <FileAudio className="w-4 h-4" /> 检测片段
+                </h3>
+                <input 
+                  type="checkbox" 
+                  checked={settings.clips.enabled}
+                  onChange={(e) => setSettings({...settings, clips: {...settings.clips, enabled: e.target.checked}})}
+                  className="w-5 h-5 accent-blue-500"
+                />
+              </label>
+
+              {settings.clips.enabled && (
+                <>
+                  <RangeField label="触发前" unit="s" min={0.5} max={3} step={0.5} value={settings.clips.preSeconds}
+                    onChange={(v) => setSettings({...settings, clips: {...settings.clips, preSeconds: v}})} />
+                  <RangeField label="触发后" unit="s" min={0.5} max={3} step={0.5} value={settings.clips.postSeconds}
+                    onChange={(v) => setSettings({...settings, clips: {...settings.clips, postSeconds: v}})} />
+                  <div className="space-y-3">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">存储上限</label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {CLIP_STORAGE_OPTIONS.map(mb => (
+                        <button 
+                          key={mb}
+                          onClick={() => setSettings({...settings, clips: {...settings.clips, maxStorageMb: mb}})}
+                          className={`py-2 rounded-xl text-[10px] font-black border transition-all ${settings.clips.maxStorageMb === mb ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'bg-slate-950 text-slate-500 border-slate-800'}`}
+                        >
+                          {mb}MB
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] font-mono text-slate-500">
+                  {clipStorage.count} 个片段 · {(clipStorage.bytes / MB).toFixed(1)} MB
+                </span>
+                {clipStorage.count > 0 && (
+                  <button onClick={clearAllClips} className="text-xs text-red-500 font-bold flex items-center gap-1 opacity-60 hover:opacity-100">
+                    <Trash2 className="w-3.5 h-3.5" /> 清空片段
+                  </button>
+                )}
+              </div>
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                每次检测保存触发前后的一小段录音，可在检测记录中回放、查看频谱图，或设为参考样本。超出上限时自动删除最早的片段。需要浏览器支持 AudioWorklet。
+              </p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                  <MicOff className="w-4 h-4" /> 音频中断
+                </h3>
+                {outages.length > 0 && (
+                  <button onClick={() => setOutages(prev => prev.filter(o => o.end === null && o.id === audioOutage?.id))} className="text-xs text-red-500 font-bold flex items-center gap-1 opacity-60 hover:opacity-100">
+                    <Trash2 className="w-3.5 h-3.5" /> 清空
+                  </button>
+                )}
+              </div>
+              {outages.length === 0 ? (
+                <p className="text-[10px] text-slate-600">暂无中断记录</p>
+              ) : (
+                <div className="space-y-2">
+                  {outages.slice(0, 10).map(o => (
+                    <div key={o.id} className="flex justify-between gap-2 text-[10px] font-mono text-slate-500">
+                      <span>{new Date(o.start).toLocaleString()}</span>
+                      <span className="text-right">
+                        {OUTAGE_REASON_LABELS[o.reason] ?? o.reason} ·{' '}
+                        {o.end !== null
+                          ? formatOutageDuration(o.end - o.start)
+                          : o.id === audioOutage?.id ? <span className="text-amber-400">恢复中</span> : '未恢复'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-[9px] text-slate-600 leading-relaxed">
+                监听期间会持续检查麦克风与音频上下文。系统挂起音频、麦克风被拔出或数据停滞时自动重新初始化，中断的起止时间记录在这里，并推送到 Home Assistant Webhook (gas_meter_audio_outage 事件)。
+              </p>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-6">
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                <Gauge className="w-4 h-4" /> 燃气表
+              </h3>
+
+              <div className="grid grid-cols-2 gap-3">
+                <TextField label="初始读数 (m³)" type="number" value={String(settings.initialMeterReading)}
+                  onChange={(v) => setSettings({...settings, initialMeterReading: Math.max(0, parseFloat(v) || 0)})} />
+                <TextField label="每次咔哒 (m³)" type="number" value={String(settings.volumePerClick)}
+                  onChange={(v) => setSettings({...settings, volumePerClick: Math.max(0, parseFloat(v) || 0)})} />
               </div>
 
-              <div className="space-y-6">
+              <div className="space-y-3">
                 <div className="flex justify-between items-end">
-                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">匹配冷却 (秒)</label>
-                  <span className="text-xl font-mono font-black text-blue-400">{settings.cooldownSeconds}s</span>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">校正读数</label>
+                  <span className="text-[10px] font-mono text-slate-500">计算值 {formatVolume(meterReading)} m³</span>
                 </div>
+                <div className="flex gap-3">
+                  <input 
+                    type="number" 
+                    value={correctionInput} 
+                    placeholder="表盘实际读数"
+                    onChange={(e) => setCorrectionInput(e.target.value)}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs font-mono text-slate-200 placeholder:text-slate-700 focus:outline-none focus:border-blue-500"
+                  />
+                  <button 
+                    onClick={correctMeterReading}
+                    disabled={!correctionInput}
+                    className="px-5 bg-blue-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest active:scale-95 transition-all disabled:opacity-40"
+                  >
+                    校正
+                  </button>
+                </div>
+                <p className="text-[9px] text-slate-600 leading-relaxed">按表盘实际读数记录一次偏移，不会清除检测记录。</p>
+              </div>
+
+              {meterCorrections.length > 0 && (
+                <div className="space-y-2">
+                  {meterCorrections.slice(0, 5).map(c => (
+                    <div key={c.id} className="flex justify-between text-[10px] font-mono text-slate-500">
+                      <span>{new Date(c.timestamp).toLocaleString()}</span>
+                      <span>{formatVolume(c.reading)} m³ ({c.offset >= 0 ? '+' : ''}{formatVolume(c.offset)})</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-6">
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                <Download className="w-4 h-4" /> 导出与备份
+              </h3>
+
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <TextField label="开始日期" type="date" value={exportFrom} onChange={setExportFrom} />
+                  <TextField label="结束日期" type="date" value={exportTo} onChange={setExportTo} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <button onClick={() => exportHistory('csv')} className="py-3 bg-slate-950 border border-slate-800 rounded-2xl text-xs font-black text-slate-300 active:scale-95 transition-all">
+                    导出记录 CSV
+                  </button>
+                  <button onClick={() => exportHistory('json')} className="py-3 bg-slate-950 border border-slate-800 rounded-2xl text-xs font-black text-slate-300 active:scale-95 transition-all">
+                    导出记录 JSON
+                  </button>
+                </div>
+                <p className="text-[9px] text-slate-600 leading-relaxed">日期留空表示不限，导出的是尚在保留期内的原始记录。</p>
+              </div>
+
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <button onClick={exportSettings} className="py-3 bg-blue-600/10 border border-blue-500/30 rounded-2xl text-xs font-black text-blue-400 active:scale-95 transition-all">
+                    备份配置
+                  </button>
+                  <button onClick={() => settingsFileRef.current?.click()} className="py-3 bg-slate-950 border border-slate-800 rounded-2xl text-xs font-black text-slate-300 active:scale-95 transition-all">
+                    导入配置
+                  </button>
+                </div>
+                <p className="text-[9px] text-slate-600 leading-relaxed">
+                  配置备份包含全部模板样本、阈值与冷却参数，可复制到另一台设备。备份中也包含 Webhook 地址与 MQTT 密码，请妥善保管。
+                </p>
+              </div>
+              <input ref={settingsFileRef} type="file" className="hidden" accept=".json,application/json" onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importSettings(file);
+              }} />
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-6">
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                <Webhook className="w-4 h-4" /> Home Assistant
+              </h3>
+
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Webhook 地址</label>
                 <input 
-                  type="range" min="0.5" max="10" step="0.5" 
-                  value={settings.cooldownSeconds} 
-                  onChange={(e) => setSettings({...settings, cooldownSeconds: parseFloat(e.target.value)})}
-                  className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+                  type="url" 
+                  value={settings.haWebhookUrl} 
+                  placeholder="http://homeassistant.local:8123/api/webhook/..."
+                  onChange={(e) => setSettings({...settings, haWebhookUrl: e.target.value.trim()})}
+                  onBlur={() => applyWebhookUrl(settingsRef.current.haWebhookUrl)}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs font-mono text-slate-200 placeholder:text-slate-700 focus:outline-none focus:border-blue-500"
                 />
+                <p className="text-[9px] text-slate-600 leading-relaxed">每次匹配都会推送到该地址，断网或失败时自动排队重试。</p>
+              </div>
+
+              <button 
+                onClick={sendTestEvent}
+                disabled={!settings.haWebhookUrl || isSendingTest}
+                className="w-full flex items-center justify-center gap-2 bg-slate-800 text-slate-300 py-4 rounded-3xl font-black text-[10px] uppercase tracking-widest active:scale-95 transition-all border border-slate-700 disabled:opacity-40"
+              >
+                <Send className="w-3.5 h-3.5" /> {isSendingTest ? '发送中...' : '发送测试事件'}
+              </button>
+            </section>
+
+            <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-6">
+              <div className="flex justify-between items-center">
+                <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                  <Radio className="w-4 h-4" /> MQTT
+                </h3>
+                <span className={`text-[9px] px-2 py-0.5 rounded-full font-bold ${MQTT_STATUS_LABELS[mqttStatus].className}`}>
+                  {MQTT_STATUS_LABELS[mqttStatus].text}
+                </span>
+              </div>
+
+              <div className="space-y-4">
+                <TextField label="Broker 地址 (WebSocket)" type="url" value={settings.mqttBrokerUrl} placeholder="ws://homeassistant.local:1884/mqtt"
+                  onChange={(v) => setSettings({...settings, mqttBrokerUrl: v.trim()})} onBlur={applyMqttConfig} />
+                {settings.mqttBrokerUrl && !isMqttBrokerUrl(settings.mqttBrokerUrl) && (
+                  <p className="text-[9px] text-red-400 leading-relaxed">仅支持 ws:// 或 wss:// 开头的 WebSocket 地址</p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <TextField label="用户名" value={settings.mqttUsername}
+                    onChange={(v) => setSettings({...settings, mqttUsername: v})} onBlur={applyMqttConfig} />
+                  <TextField label="密码" type="password" value={settings.mqttPassword}
+                    onChange={(v) => setSettings({...settings, mqttPassword: v})} onBlur={applyMqttConfig} />
+                </div>
+                <TextField label="主题前缀" value={settings.mqttTopicPrefix} placeholder="audio_pulse"
+                  onChange={(v) => setSettings({...settings, mqttTopicPrefix: v.trim()})} onBlur={applyMqttConfig} />
+                <p className="text-[9px] text-slate-600 leading-relaxed">连接后会自动向 Home Assistant 发布燃气传感器的发现配置，在线状态跟随分析开关。</p>
               </div>
             </section>
           </div>
@@ -370,12 +1897,75 @@ const App: React.FC = () => {
       <nav className="fixed bottom-0 left-0 right-0 max-w-md mx-auto bg-slate-900/90 backdrop-blur-2xl border-t border-slate-800/50 py-4 px-6 flex justify-between items-center z-30 pb-[max(1rem,env(safe-area-inset-bottom))]">
         <NavButton active={activeTab === 'monitor'} onClick={() => setActiveTab('monitor')} icon={<Activity />} label="实时" />
         <NavButton active={activeTab === 'history'} onClick={() => setActiveTab('history')} icon={<HistoryIcon />} label="统计" />
+        <NavButton active={activeTab === 'analysis'} onClick={() => setActiveTab('analysis')} icon={<FileAudio />} label="离线" />
         <NavButton active={activeTab === 'settings'} onClick={() => setActiveTab('settings')} icon={<Settings />} label="配置" />
       </nav>
     </div>
   );
 };
 
+const RangeField = ({ label, value, onChange, min, max, step, unit = '' }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}) => (
+  <div className="space-y-4">
+    <div className="flex justify-between items-end">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</label>
+      <span className="text-lg font-mono font-black text-blue-400">{value}{unit}</span>
+    </div>
+    <input 
+      type="range" min={min} max={max} step={step} 
+      value={value} 
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+    />
+  </div>
+);
+
+const FilterChip: React.FC<{ active: boolean; onClick: () => void; label: string }> = ({ active, onClick, label }) => (
+  <button 
+    onClick={onClick} 
+    className={`shrink-0 px-3 py-1.5 rounded-full text-[10px] font-black tracking-widest transition-all border ${active ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'bg-slate-900/50 text-slate-500 border-slate-800'}`}
+  >
+    {label}
+  </button>
+);
+
+const MeterStat = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-3 flex flex-col items-center justify-center">
+    <span className="text-[9px] text-slate-500 font-black uppercase tracking-widest mb-1 flex items-center gap-1">
+      <Flame className="w-3 h-3" /> {label}
+    </span>
+    <span className="text-xs font-mono font-black text-slate-200 tabular-nums">{value}</span>
+  </div>
+);
+
+const TextField = ({ label, value, onChange, onBlur, type = 'text', placeholder }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  type?: string;
+  placeholder?: string;
+}) => (
+  <div className="space-y-2">
+    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</label>
+    <input 
+      type={type} 
+      value={value} 
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onBlur}
+      className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs font-mono text-slate-200 placeholder:text-slate-700 focus:outline-none focus:border-blue-500"
+    />
+  </div>
+);
+
 const NavButton = ({ active, onClick, icon, label }: any) => (
   <button onClick={onClick} className={`flex flex-col items-center gap-1 transition-all ${active ? 'text-blue-500' : 'text-slate-600'}`}>
     <div className={`p-2 rounded-xl transition-all ${active ? 'bg-blue-500/10' : ''}`}>
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Target, Trash2 } from 'lucide-react';
+import { StoredClip, clipDuration, clipSamples, clipToWav, loadClip } from '../services/clipStore';
+import { stft } from '../services/dsp';
+import { drawSpectrumColumn } from '../services/spectrogram';
+
+interface ClipPlayerProps {
+  recordId: string;
+  onDelete: () => void;
+  onPromote: (samples: Float32Array, sampleRate: number) => void;
+}
+
+// 片段频谱图的分析参数：较短的窗口换取更细的时间分辨率
+const CLIP_FFT_SIZE = 1024;
+const CLIP_HOP_SIZE = 256;
+const CLIP_MAX_FREQ = 12000;
+const CLIP_SPECTROGRAM_HEIGHT = 96;
+
+/**
+ * 检测片段回放：播放触发前后的录音，显示频谱图并标出触发时刻，
+ * 可删除片段或把它设为所属模板的参考样本。
+ */
+const ClipPlayer: React.FC<ClipPlayerProps> = ({ recordId, onDelete, onPromote }) => {
+  const [clip, setClip] = useState<StoredClip | null>(null);
+  const [missing, setMissing] = useState(false);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadClip(recordId)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored) setClip(stored);
+        else setMissing(true);
+      })
+      .catch(err => {
+        console.warn('Load clip failed', err);
+        if (!cancelled) setMissing(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordId]);
+
+  useEffect(() => {
+    if (!clip) return;
+    const url = URL.createObjectURL(clipToWav(clip));
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [clip]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!clip || !canvas || !ctx) return;
+    const frames = stft(clipSamples(clip), { fftSize: CLIP_FFT_SIZE, smoothing: 0, hopSize: CLIP_HOP_SIZE });
+    if (frames.length === 0) return;
+    canvas.width = frames.length;
+    canvas.height = CLIP_SPECTROGRAM_HEIGHT;
+    const image = ctx.createImageData(frames.length, CLIP_SPECTROGRAM_HEIGHT);
+    const maxFreq = Math.min(CLIP_MAX_FREQ, clip.sampleRate / 2);
+    frames.forEach((db, x) => drawSpectrumColumn(image, x, db, clip.sampleRate / CLIP_FFT_SIZE, 0, maxFreq));
+    ctx.putImageData(image, 0, 0);
+  }, [clip]);
+
+  if (missing) {
+    return <p className="text-[10px] text-slate-600 px-1">片段已被删除或超出存储上限。</p>;
+  }
+  if (!clip) {
+    return <p className="text-[10px] text-slate-600 px-1">正在读取片段...</p>;
+  }
+
+  const duration = clipDuration(clip);
+  const maxFreq = Math.min(CLIP_MAX_FREQ, clip.sampleRate / 2);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-xl overflow-hidden border border-slate-800 bg-slate-950">
+        <canvas ref={canvasRef} className="block w-full h-24" style={{ imageRendering: 'pixelated' }} />
+        <div
+          className="absolute top-0 bottom-0 w-px bg-red-500/80"
+          style={{ left: `${(clip.preSeconds / duration) * 100}%` }}
+        />
+        <span className="absolute top-1 left-1 text-[8px] font-mono text-slate-400">{(maxFreq / 1000).toFixed(0)}k</span>
+        <span className="absolute bottom-1 right-1 text-[8px] font-mono text-slate-400">{duration.toFixed(1)}s</span>
+      </div>
+      {audioUrl && <audio src={audioUrl} controls className="w-full h-8" />}
+      <div className="flex gap-2">
+        <button
+          onClick={() => onPromote(clipSamples(clip), clip.sampleRate)}
+          className="flex-1 py-2 bg-blue-600/10 border border-blue-500/30 rounded-xl text-[10px] font-black text-blue-400 flex items-center justify-center gap-1 active:scale-95 transition-all"
+        >
+          <Target className="w-3 h-3" /> 设为参考样本
+        </button>
+        <button
+          onClick={onDelete}
+          className="px-4 py-2 bg-slate-950 border border-slate-800 rounded-xl text-[10px] font-black text-red-500 flex items-center gap-1 active:scale-95 transition-all"
+        >
+          <Trash2 className="w-3 h-3" /> 删除片段
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClipPlayer;
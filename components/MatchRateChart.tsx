@@ -0,0 +1,42 @@
+import React from 'react';
+import { Area, AreaChart, ReferenceLine, ResponsiveContainer, YAxis } from 'recharts';
+import { AudioFrame } from '../types';
+
+interface MatchRateChartProps {
+  data: AudioFrame[];
+  threshold: number; // 距离阈值，换算为匹配率后绘制
+}
+
+/**
+ * 实时匹配率：以 1 - 距离 表示与参考样本的相似程度，越高越接近，
+ * 红色虚线为触发所需的最低匹配率。
+ */
+const MatchRateChart: React.FC<MatchRateChartProps> = ({ data, threshold }) => {
+  const points = data.map(f => ({ v: 1 - f.distance }));
+  return (
+    <div className="h-32 w-full rounded-2xl bg-slate-900/50 overflow-hidden">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={points}>
+          <defs>
+            <linearGradient id="simGrad" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.4} />
+              <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <YAxis domain={[0, 1]} hide />
+          <ReferenceLine y={1 - threshold} stroke="#ef4444" strokeDasharray="5 5" strokeWidth={2} />
+          <Area
+            type="stepAfter"
+            dataKey="v"
+            stroke="#3b82f6"
+            fill="url(#simGrad)"
+            isAnimationActive={false}
+            strokeWidth={3}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default MatchRateChart;
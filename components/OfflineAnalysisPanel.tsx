@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { FileAudio, ListChecks, Upload } from 'lucide-react';
+import { AudioEngine } from '../services/audioEngine';
+import {
+  DEFAULT_MATCH_TOLERANCE,
+  OfflineAnalysis,
+  formatOffset,
+  parseGroundTruth,
+  scoreDetections
+} from '../services/offlineAnalysis';
+import { AppSettings, AudioFrame } from '../types';
+import Visualizer from './Visualizer';
+
+interface OfflineAnalysisPanelProps {
+  settings: AppSettings;
+}
+
+/**
+ * 离线分析：上传一段长录音，用当前模板与参数快速跑完整个检测流程，
+ * 可选载入人工标注的咔哒时间点计算准确率与召回率，便于调参。
+ */
+const OfflineAnalysisPanel: React.FC<OfflineAnalysisPanelProps> = ({ settings }) => {
+  const [result, setResult] = useState<OfflineAnalysis | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [groundTruth, setGroundTruth] = useState<number[] | null>(null);
+  const [templateId, setTemplateId] = useState<string | null>(settings.activeTemplateId);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const truthInputRef = useRef<HTMLInputElement>(null);
+
+  const template = settings.templates.find(t => t.id === templateId) || settings.templates[0] || null;
+  const templateHits = result && template ? result.hits.filter(h => h.templateId === template.id) : [];
+  const score = groundTruth ? scoreDetections(templateHits.map(h => h.time), groundTruth) : null;
+
+  const chartData: AudioFrame[] = result && template
+    ? result.buckets.map((bucket, i) => ({
+        time: formatOffset(i * result.bucketSeconds),
+        distance: bucket[template.id] ?? 1.0,
+        threshold: template.threshold,
+        adaptiveThreshold: settings.adaptive.enabled ? result.thresholds[i][template.id] : undefined
+      }))
+    : [];
+
+  const analyze = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    setProgress(0);
+    try {
+      const engine = new AudioEngine();
+      engine.setFeatureConfig(settings.features);
+      engine.setAnalysisConfig(settings.analysis);
+      engine.setInputConfig(settings.input);
+      const analysis = await engine.analyzeFile(await file.arrayBuffer(), {
+        enabled: true,
+        matchMode: settings.matchMode,
+        features: settings.features,
+        onset: settings.onset,
+        adaptive: settings.adaptive,
+        templates: settings.templates
+      }, setProgress);
+      setResult(analysis);
+    } catch (err) {
+      alert(`录音分析失败：${err instanceof Error ? err.message : '无法解码该音频文件'}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300">
+      <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-4">
+        <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <FileAudio className="w-4 h-4" /> 离线分析
+        </h3>
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          上传一段表计附近的长录音，使用当前模板、比对模式与起音参数进行检测，速度远快于实时监听。
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => audioInputRef.current?.click()}
+            disabled={progress !== null}
+            className="flex flex-col items-center justify-center gap-2 p-5 bg-slate-950 border border-slate-800 rounded-3xl hover:border-blue-500/50 transition-all disabled:opacity-50"
+          >
+            <Upload className="w-6 h-6 text-blue-500" />
+            <span className="text-[10px] font-black text-slate-400">选择录音</span>
+          </button>
+          <button
+            onClick={() => truthInputRef.current?.click()}
+            className="flex flex-col items-center justify-center gap-2 p-5 bg-slate-950 border border-slate-800 rounded-3xl hover:border-blue-500/50 transition-all"
+          >
+            <ListChecks className="w-6 h-6 text-emerald-500" />
+            <span className="text-[10px] font-black text-slate-400">
+              {groundTruth ? `真值 ${groundTruth.length} 个` : '载入真值 (可选)'}
+            </span>
+          </button>
+        </div>
+        <p className="text-[9px] text-slate-600 leading-relaxed">
+          真值文件为文本，每行一个咔哒时间点，支持秒数 (12.5) 或 mm:ss.s 格式。
+        </p>
+
+        {progress !== null && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-black text-slate-500">
+              <span className="truncate">{fileName}</span>
+              <span>{Math.round(progress * 100)}%</span>
+            </div>
+            <div className="h-1.5 bg-slate-950 rounded-full overflow-hidden border border-slate-800">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        <input ref={audioInputRef} type="file" className="hidden" accept="audio/*" onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) analyze(file);
+        }} />
+        <input ref={truthInputRef} type="file" className="hidden" accept=".txt,.csv,text/plain" onChange={async (e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (!file) return;
+          const times = parseGroundTruth(await file.text());
+          if (times.length === 0) {
+            alert("真值文件中没有可识别的时间点。");
+            return;
+          }
+          setGroundTruth(times);
+        }} />
+      </section>
+
+      {result && (
+        <section className="bg-slate-900/50 rounded-[2.5rem] border border-slate-800 p-6 space-y-5">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <Stat label="录音时长" value={formatOffset(result.duration)} />
+            <Stat label="命中" value={String(templateHits.length)} />
+            <Stat label="分析速度" value={`${Math.round(result.duration * 1000 / Math.max(1, result.elapsedMs))}×`} />
+          </div>
+
+          {settings.templates.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar">
+              {settings.templates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setTemplateId(t.id)}
+                  className={`shrink-0 px-3 py-1.5 rounded-full text-[10px] font-black tracking-widest transition-all border ${t.id === template?.id ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'bg-slate-900/50 text-slate-500 border-slate-800'}`}
+                >
+                  {t.label} {result.hits.filter(h => h.templateId === t.id).length}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <Visualizer data={chartData} threshold={template?.threshold ?? 0} showTime />
+
+          {score && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3 text-center">
+                <Stat label="准确率" value={`${(score.precision * 100).toFixed(1)}%`} />
+                <Stat label="召回率" value={`${(score.recall * 100).toFixed(1)}%`} />
+              </div>
+              <p className="text-[10px] text-slate-500 font-mono text-center">
+                正确 {score.truePositives} · 误报 {score.falsePositives} · 漏报 {score.falseNegatives} · 容差 ±{DEFAULT_MATCH_TOLERANCE}s
+              </p>
+            </div>
+          )}
+
+          {templateHits.length > 0 && (
+            <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+              {templateHits.map((hit, idx) => (
+                <div key={idx} className="flex justify-between items-center px-4 py-2 bg-slate-950 rounded-xl border border-slate-800/50">
+                  <span className="text-[10px] text-slate-600 font-mono">#{idx + 1}</span>
+                  <span className="text-xs text-slate-300 font-mono">{formatOffset(hit.time)}</span>
+                  <span className="text-xs font-mono font-black text-blue-400">{(100 - hit.distance * 100).toFixed(0)}%</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-slate-950 border border-slate-800 rounded-2xl p-3">
+    <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mb-1">{label}</p>
+    <p className="text-sm font-mono font-black text-slate-300">{value}</p>
+  </div>
+);
+
+export default OfflineAnalysisPanel;
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioEngine } from '../services/audioEngine';
+import { BandLevel } from '../services/features';
+import { drawSpectrumColumn } from '../services/spectrogram';
+
+interface SpectrogramProps {
+  engine: AudioEngine | null;
+  active: boolean; // 监听中才滚动
+  profile: BandLevel[]; // 当前模板参考指纹的频带轮廓
+  featureRange: [number, number]; // 特征提取使用的频率范围
+  lastHitAt: number | null; // 最近一次检测的时间戳，变化时在时间轴上打标记
+}
+
+type RangeOption = 'feature' | 'low' | 'mid' | 'full';
+
+const RANGE_LABELS: Record<RangeOption, string> = {
+  feature: '特征频段',
+  low: '0–4k',
+  mid: '0–8k',
+  full: '全频'
+};
+
+// 画布列数即可回看的帧数，按 21ms 帧移约 5 秒
+const COLUMNS = 240;
+const ROWS = 128;
+const MARKER_ROWS = 6;
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(hz % 1000 ? 1 : 0)}k` : `${Math.round(hz)}`);
+
+/**
+ * 实时滚动频谱图 (瀑布图)：按检测帧移读取频谱，每帧向左滚动一列，
+ * 右侧叠加参考指纹的频带轮廓，检测时刻在顶部标记红色刻度。
+ */
+const Spectrogram: React.FC<SpectrogramProps> = ({ engine, active, profile, featureRange, lastHitAt }) => {
+  const [range, setRange] = useState<RangeOption>('feature');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pendingMarkerRef = useRef(false);
+
+  const nyquist = (engine?.sampleRate ?? 48000) / 2;
+  const [minFreq, maxFreq] =
+    range === 'feature' ? [featureRange[0], Math.min(featureRange[1], nyquist)]
+    : range === 'low' ? [0, 4000]
+    : range === 'mid' ? [0, 8000]
+    : [0, nyquist];
+
+  useEffect(() => {
+    if (lastHitAt !== null) pendingMarkerRef.current = true;
+  }, [lastHitAt]);
+
+  // 频率范围变化后旧的列无法对齐，清空重画
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, COLUMNS, ROWS);
+  }, [minFreq, maxFreq]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!active || !engine || !canvas || !ctx) return;
+    const column = ctx.createImageData(1, ROWS);
+    const timer = setInterval(() => {
+      const db = engine.getFrequencyData();
+      if (db.length === 0) return;
+      drawSpectrumColumn(column, 0, db, engine.sampleRate / 2 / db.length, minFreq, maxFreq);
+      if (pendingMarkerRef.current) {
+        pendingMarkerRef.current = false;
+        for (let y = 0; y < MARKER_ROWS; y++) column.data.set([239, 68, 68, 255], y * 4);
+      }
+      ctx.drawImage(canvas, -1, 0);
+      ctx.putImageData(column, COLUMNS - 1, 0);
+    }, engine.hopIntervalMs);
+    return () => clearInterval(timer);
+  }, [active, engine, minFreq, maxFreq]);
+
+  const visibleProfile = profile.filter(b => b.freq >= minFreq && b.freq <= maxFreq);
+  const points = visibleProfile
+    .map(b => `${100 - b.level * 20},${100 - ((b.freq - minFreq) / (maxFreq - minFreq)) * 100}`)
+    .join(' ');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex bg-slate-950 rounded-full border border-slate-800 p-0.5 w-fit">
+        {(Object.keys(RANGE_LABELS) as RangeOption[]).map(r => (
+          <button
+            key={r}
+            onClick={() => setRange(r)}
+            className={`px-3 py-1 rounded-full text-[9px] font-black ${range === r ? 'bg-blue-600 text-white' : 'text-slate-500'}`}
+          >
+            {RANGE_LABELS[r]}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative rounded-2xl overflow-hidden border border-slate-800 bg-slate-950 h-40">
+        <canvas ref={canvasRef} width={COLUMNS} height={ROWS} className="block w-full h-full" style={{ imageRendering: 'pixelated' }} />
+        {visibleProfile.length > 1 && (
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            <polyline points={points} fill="none" stroke="#f59e0b" strokeWidth={1.5} vectorEffect="non-scaling-stroke" strokeOpacity={0.9} />
+          </svg>
+        )}
+        <span className="absolute top-1 left-1.5 text-[8px] font-mono text-slate-400">{formatHz(maxFreq)}</span>
+        <span className="absolute bottom-1 left-1.5 text-[8px] font-mono text-slate-400">{formatHz(minFreq)}</span>
+        <span className="absolute bottom-1 right-1.5 text-[8px] font-mono text-slate-400">
+          {engine ? `${((COLUMNS * engine.hopIntervalMs) / 1000).toFixed(0)}s` : ''}
+        </span>
+        {!active && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] font-black text-slate-600 uppercase tracking-widest">
+            开始分析后显示
+          </div>
+        )}
+      </div>
+      <p className="text-[9px] text-slate-600 leading-relaxed">
+        橙色曲线为当前模板参考指纹的频带轮廓 (越靠左能量越高)，红色刻度为检测时刻。
+      </p>
+    </div>
+  );
+};
+
+export default Spectrogram;
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { BarChart3, Clock, TrendingDown, TrendingUp } from 'lucide-react';
+import { HourlyCount, loadHourlyCounts } from '../services/historyStore';
+import {
+  HEATMAP_DAYS,
+  PERIOD_BUCKETS,
+  StatsPeriod,
+  addPeriods,
+  aggregate,
+  peakHours,
+  summarize,
+  weekHourMatrix,
+  windowStart
+} from '../services/stats';
+import { formatVolume } from '../services/meter';
+import { SoundTemplate } from '../types';
+
+interface StatsDashboardProps {
+  templates: SoundTemplate[];
+  initialTemplateId: string | null;
+  meterTemplateId: string | null;
+  volumePerClick: number;
+  refreshKey: number; // 新检测写入后变化，触发重新读取
+}
+
+const PERIOD_LABELS: Record<StatsPeriod, { tab: string; current: string; previous: string }> = {
+  hour: { tab: '小时', current: '近 24 小时', previous: '前 24 小时' },
+  day: { tab: '天', current: '近 30 天', previous: '前 30 天' },
+  week: { tab: '周', current: '近 12 周', previous: '前 12 周' },
+  month: { tab: '月', current: '近 12 个月', previous: '前 12 个月' }
+};
+
+const WEEKDAY_LABELS = ['一', '二', '三', '四', '五', '六', '日'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 用气统计：基于按小时汇总的检测次数，按不同粒度展示柱状图、
+ * 与上一周期的对比，以及一天中各时段的使用热力图。
+ */
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ templates, initialTemplateId, meterTemplateId, volumePerClick, refreshKey }) => {
+  const [period, setPeriod] = useState<StatsPeriod>('day');
+  const [templateId, setTemplateId] = useState(initialTemplateId);
+  const [counts, setCounts] = useState<HourlyCount[]>([]);
+
+  const template = templates.find(t => t.id === templateId) || templates[0] || null;
+  // 计入燃气表的模板按用气量显示，其他模板按次数显示
+  const isMeter = !!template && template.id === meterTemplateId;
+  const format = (count: number) =>
+    isMeter ? `${formatVolume(count * volumePerClick)} m³` : `${Number.isInteger(count) ? count : count.toFixed(1)} 次`;
+
+  useEffect(() => {
+    const now = Date.now();
+    const since = Math.min(
+      addPeriods(windowStart(period, now), period, -PERIOD_BUCKETS[period]),
+      now - HEATMAP_DAYS * DAY_MS
+    );
+    loadHourlyCounts(since).then(setCounts).catch(err => console.warn('Load stats failed', err));
+  }, [period, refreshKey]);
+
+  if (!template) {
+    return (
+      <div className="py-20 text-center opacity-20">
+        <BarChart3 className="w-16 h-16 mx-auto mb-4" />
+        <p className="font-bold text-sm tracking-widest uppercase">暂无声音模板</p>
+      </div>
+    );
+  }
+
+  const buckets = aggregate(counts, template.id, period);
+  const summary = summarize(buckets);
+  const chartData = buckets.map(b => ({
+    label: b.label,
+    current: isMeter ? b.current * volumePerClick : b.current,
+    previous: isMeter ? b.previous * volumePerClick : b.previous
+  }));
+  const matrix = weekHourMatrix(counts, template.id, Date.now() - HEATMAP_DAYS * DAY_MS);
+  const maxCell = Math.max(1, ...matrix.flat());
+  const peaks = peakHours(matrix);
+  const labels = PERIOD_LABELS[period];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 overflow-x-auto no-scrollbar px-2">
+        {templates.length > 1 && templates.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTemplateId(t.id)}
+            className={`shrink-0 px-3 py-1.5 rounded-full text-[10px] font-black tracking-widest transition-all border ${t.id === template.id ? 'bg-blue-600/20 text-blue-400 border-blue-500/40' : 'bg-slate-900/50 text-slate-500 border-slate-800'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <section className="bg-slate-900/50 rounded-[2rem] border border-slate-800 p-5 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+            <BarChart3 className="w-4 h-4" /> {labels.current}
+          </h3>
+          <div className="flex bg-slate-950 rounded-full border border-slate-800 p-0.5">
+            {(Object.keys(PERIOD_LABELS) as StatsPeriod[]).map(p => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-3 py-1 rounded-full text-[9px] font-black ${period === p ? 'bg-blue-600 text-white' : 'text-slate-500'}`}
+              >
+                {PERIOD_LABELS[p].tab}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-slate-950 border border-slate-800 rounded-2xl p-3">
+            <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mb-1">本期合计</p>
+            <p className="text-sm font-mono font-black text-slate-300">{format(summary.total)}</p>
+          </div>
+          <div className="bg-slate-950 border border-slate-800 rounded-2xl p-3">
+            <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mb-1">较{labels.previous}</p>
+            {summary.change === null ? (
+              <p className="text-sm font-mono font-black text-slate-600">--</p>
+            ) : (
+              <p className={`text-sm font-mono font-black flex items-center gap-1 ${summary.change > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                {summary.change > 0 ? <TrendingUp className="w-3.5 h-3.5" /> : <TrendingDown className="w-3.5 h-3.5" />}
+                {summary.change > 0 ? '+' : ''}{(summary.change * 100).toFixed(0)}%
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }} barGap={0}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} strokeOpacity={0.4} />
+              <XAxis dataKey="label" stroke="#475569" fontSize={9} axisLine={false} tickLine={false} minTickGap={12} />
+              <YAxis stroke="#475569" fontSize={9} axisLine={false} tickLine={false} allowDecimals={isMeter} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '12px', fontSize: '10px' }}
+                cursor={{ fill: '#1e293b', opacity: 0.4 }}
+                formatter={(value: number, name: string) => [
+                  isMeter ? `${formatVolume(value)} m³` : `${value} 次`,
+                  name === 'current' ? '本期' : '上期'
+                ]}
+              />
+              <Bar dataKey="previous" fill="#334155" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+              <Bar dataKey="current" fill="#3b82f6" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-[9px] text-slate-600 text-center">蓝色为{labels.current}，灰色为{labels.previous}同位置</p>
+      </section>
+
+      <section className="bg-slate-900/50 rounded-[2rem] border border-slate-800 p-5 space-y-4">
+        <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <Clock className="w-4 h-4" /> 时段分布 · 近 {HEATMAP_DAYS} 天
+        </h3>
+
+        <div className="space-y-[2px]">
+          {matrix.map((row, day) => (
+            <div key={day} className="flex items-center gap-[2px]">
+              <span className="w-4 text-[8px] text-slate-600 font-black shrink-0">{WEEKDAY_LABELS[day]}</span>
+              {row.map((count, hour) => (
+                <div
+                  key={hour}
+                  title={`周${WEEKDAY_LABELS[day]} ${hour}:00 · ${format(count)}`}
+                  className="flex-1 aspect-square rounded-[2px]"
+                  style={{ backgroundColor: count ? `rgba(59, 130, 246, ${0.15 + 0.85 * (count / maxCell)})` : '#0f172a' }}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="flex gap-[2px] pl-[18px]">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <span key={hour} className="flex-1 text-[7px] text-slate-600 text-center">{hour % 6 === 0 ? hour : ''}</span>
+            ))}
+          </div>
+        </div>
+
+        {peaks.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">高峰时段</p>
+            {peaks.map(({ hour, count }, idx) => (
+              <div key={hour} className="flex justify-between items-center px-4 py-2 bg-slate-950 rounded-xl border border-slate-800/50">
+                <span className="text-xs text-slate-300 font-mono">
+                  #{idx + 1} {String(hour).padStart(2, '0')}:00–{String(hour + 1).padStart(2, '0')}:00
+                </span>
+                <span className="text-xs font-mono font-black text-blue-400">日均 {format(count / HEATMAP_DAYS)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-600">近 {HEATMAP_DAYS} 天暂无记录。</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { Crosshair } from 'lucide-react';
+import { MIN_LABELED_CLICKS, MIN_LABELED_NOISE, TuningResult } from '../services/tuning';
+import { SoundTemplate } from '../types';
+
+interface ThresholdTunerProps {
+  template: SoundTemplate;
+  result: TuningResult | null;
+  onApply: (threshold: number, cooldownSeconds: number) => void;
+}
+
+type CurveKind = 'roc' | 'pr';
+
+const CURVE_AXES: Record<CurveKind, { x: 'falsePositiveRate' | 'recall'; y: 'recall' | 'precision'; xLabel: string; yLabel: string }> = {
+  roc: { x: 'falsePositiveRate', y: 'recall', xLabel: '误报率', yLabel: '召回率' },
+  pr: { x: 'recall', y: 'precision', xLabel: '召回率', yLabel: '准确率' }
+};
+
+const percent = (v: number) => `${(v * 100).toFixed(0)}%`;
+
+/**
+ * 阈值调优卡片：展示标注样本在各阈值下的误报/漏报权衡曲线，
+ * 拖动选择工作点后一键应用到模板。
+ */
+const ThresholdTuner: React.FC<ThresholdTunerProps> = ({ template, result, onApply }) => {
+  const [curve, setCurve] = useState<CurveKind>('roc');
+  const [selected, setSelected] = useState(0);
+
+  // 标注变化后回到推荐工作点
+  const recommendedIndex = result ? result.points.indexOf(result.recommended) : 0;
+  useEffect(() => {
+    setSelected(recommendedIndex);
+  }, [recommendedIndex, template.id]);
+
+  if (!result) {
+    return (
+      <section className="bg-slate-900/50 rounded-[2rem] border border-slate-800 p-5 space-y-2">
+        <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <Crosshair className="w-4 h-4" /> 阈值调优 · {template.label}
+        </h3>
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          请在下方标注至少 {MIN_LABELED_CLICKS} 个真实咔哒 (正确检测或漏检) 和 {MIN_LABELED_NOISE} 个误报或噪声，即可计算推荐阈值。
+        </p>
+      </section>
+    );
+  }
+
+  const axes = CURVE_AXES[curve];
+  const point = result.points[Math.min(selected, result.points.length - 1)];
+  const current = result.points.reduce((a, b) => Math.abs(b.threshold - template.threshold) < Math.abs(a.threshold - template.threshold) ? b : a);
+
+  return (
+    <section className="bg-slate-900/50 rounded-[2rem] border border-slate-800 p-5 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <Crosshair className="w-4 h-4" /> 阈值调优 · {template.label}
+        </h3>
+        <div className="flex bg-slate-950 rounded-full border border-slate-800 p-0.5">
+          {(['roc', 'pr'] as CurveKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setCurve(kind)}
+              className={`px-3 py-1 rounded-full text-[9px] font-black uppercase ${curve === kind ? 'bg-blue-600 text-white' : 'text-slate-500'}`}
+            >
+              {kind}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={result.points} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" strokeOpacity={0.4} />
+            <XAxis type="number" dataKey={axes.x} domain={[0, 1]} stroke="#475569" fontSize={9} tickFormatter={percent} axisLine={false} tickLine={false} />
+            <YAxis type="number" dataKey={axes.y} domain={[0, 1]} stroke="#475569" fontSize={9} tickFormatter={percent} axisLine={false} tickLine={false} />
+            <Line type="stepAfter" dataKey={axes.y} stroke="#3b82f6" strokeWidth={3} dot={false} isAnimationActive={false} />
+            <ReferenceDot x={current[axes.x]} y={current[axes.y]} r={5} fill="#475569" stroke="#0f172a" />
+            <ReferenceDot x={point[axes.x]} y={point[axes.y]} r={6} fill="#ef4444" stroke="#fff" strokeWidth={2} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[9px] text-slate-600 text-center">横轴 {axes.xLabel} · 纵轴 {axes.yLabel} · 灰点为当前阈值，红点为所选工作点</p>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-end">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            工作点{point === result.recommended ? ' (推荐)' : ''}
+          </label>
+          <span className="text-lg font-mono font-black text-blue-400">{percent(point.threshold)}</span>
+        </div>
+        <input
+          type="range" min={0} max={result.points.length - 1} step={1}
+          value={selected}
+          onChange={(e) => setSelected(parseInt(e.target.value))}
+          className="w-full accent-blue-500 h-2 bg-slate-800 rounded-full appearance-none cursor-pointer"
+        />
+        <p className="text-[10px] text-slate-500 font-mono text-center">
+          正确 {point.truePositives} · 误报 {point.falsePositives} · 漏报 {point.falseNegatives} · 样本 {result.clicks}/{result.noise}
+        </p>
+      </div>
+
+      <button
+        onClick={() => onApply(point.threshold, result.cooldownSeconds)}
+        className="w-full py-3 bg-blue-600 rounded-2xl font-black text-sm text-white active:scale-95 transition-all"
+      >
+        应用阈值 {percent(point.threshold)} · 冷却 {result.cooldownSeconds}s
+      </button>
+    </section>
+  );
+};
+
+export default ThresholdTuner;
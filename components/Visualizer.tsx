@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   LineChart, 
   Line, 
@@ -9,23 +9,67 @@ import {
   Tooltip, 
   ResponsiveContainer, 
   ReferenceLine,
+  ReferenceDot,
+  Brush,
   Area,
   AreaChart,
   ComposedChart
 } from 'recharts';
 import { AudioFrame } from '../types';
 
+// 历史时间轴上的检测标记
+export interface TimelineMarker {
+  id: string;
+  timestamp: number;
+  distance: number;
+}
+
 interface VisualizerProps {
   data: AudioFrame[];
   threshold: number;
-  onPointHover?: (distance: number | null) => void;
+  showTime?: boolean; // 显示时间轴刻度 (离线分析)
+  timeline?: boolean; // 历史时间轴：按 timestamp 绘制，可拖动底部滑块缩放与平移
+  markers?: TimelineMarker[];
+  onMarkerClick?: (id: string) => void;
+  onPointHover?: (frame: AudioFrame | null) => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit' });
+
+// 缩放范围以时间记录，数据刷新后仍停留在同一时段；右端在最新处时跟随新数据
+interface ZoomRange {
+  start: number;
+  end: number;
+  followLatest: boolean;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ data, threshold, onPointHover }) => {
+const Visualizer: React.FC<VisualizerProps> = ({ data, threshold, showTime = false, timeline = false, markers = [], onMarkerClick, onPointHover }) => {
+  const [zoom, setZoom] = useState<ZoomRange | null>(null);
+
+  const lastIndex = data.length - 1;
+  // 跟随最新数据时保持窗口宽度，整体向右滑动
+  const startTime = zoom && (zoom.followLatest ? (data[lastIndex]?.timestamp ?? 0) - (zoom.end - zoom.start) : zoom.start);
+  const brushStart = startTime === null ? 0 : Math.max(0, data.findIndex(f => (f.timestamp ?? 0) >= startTime));
+  const brushEnd = !zoom || zoom.followLatest
+    ? lastIndex
+    : Math.max(brushStart, data.reduce((acc, f, i) => (f.timestamp ?? 0) <= zoom.end ? i : acc, brushStart));
+
+  const handleBrushChange = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    setZoom(startIndex === 0 && endIndex === lastIndex ? null : {
+      start: data[startIndex].timestamp ?? 0,
+      end: data[endIndex].timestamp ?? 0,
+      followLatest: endIndex === lastIndex
+    });
+  };
+  // 时间轴模式按时间戳找回数据点，实时模式的时间标签可能重复，按下标查找
   const handleMouseMove = (state: any) => {
-    if (onPointHover && state && state.activePayload && state.activePayload.length > 0) {
-      onPointHover(state.activePayload[0].value);
-    }
+    if (!onPointHover || !state?.isTooltipActive) return;
+    const frame = timeline
+      ? data.find(f => f.timestamp === state.activeLabel)
+      : data[Number(state.activeIndex)];
+    if (frame) onPointHover(frame);
   };
 
   const handleMouseLeave = () => {
@@ -45,7 +89,7 @@ const Visualizer: React.FC<VisualizerProps> = ({ data, threshold, onPointHover }
       <ResponsiveContainer width="100%" height="100%">
         <ComposedChart 
           data={data} 
-          margin={{ top: 25, right: 15, left: -15, bottom: 5 }}
+          margin={{ top: 25, right: 15, left: -15, bottom: timeline ? 10 : 5 }}
           onMouseMove={handleMouseMove}
           onMouseLeave={handleMouseLeave}
           onTouchMove={handleMouseMove}
@@ -60,10 +104,30 @@ const Visualizer: React.FC<VisualizerProps> = ({ data, threshold, onPointHover }
           
           <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} strokeOpacity={0.4} />
           
-          <XAxis 
-            dataKey="time" 
-            hide 
-          />
+          {timeline ? (
+            <XAxis 
+              dataKey="timestamp" 
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatClock}
+              stroke="#475569"
+              fontSize={9}
+              axisLine={false}
+              tickLine={false}
+              minTickGap={40}
+            />
+          ) : (
+            <XAxis 
+              dataKey="time" 
+              hide={!showTime}
+              stroke="#475569"
+              fontSize={9}
+              axisLine={false}
+              tickLine={false}
+              minTickGap={40}
+            />
+          )}
           
           <YAxis 
             domain={[0, 1]} 
@@ -87,9 +151,10 @@ const Visualizer: React.FC<VisualizerProps> = ({ data, threshold, onPointHover }
               borderWidth: '2px'
             }}
             itemStyle={{ color: '#3b82f6', fontWeight: '900' }}
-            labelStyle={{ display: 'none' }}
+            labelStyle={timeline ? { color: '#94a3b8', fontWeight: '900' } : { display: 'none' }}
+            labelFormatter={(label) => timeline ? new Date(Number(label)).toLocaleString() : label}
             cursor={{ stroke: '#3b82f6', strokeWidth: 2, strokeDasharray: '5 5' }}
-            formatter={(value: number) => [`${(value * 100).toFixed(1)}%`, 'Error Distance']}
+            formatter={(value: number, name: string) => [`${(value * 100).toFixed(1)}%`, name === 'adaptiveThreshold' ? 'Adaptive Threshold' : 'Error Distance']}
           />
           
           {/* Shading area BELOW the threshold line to indicate target zone */}
@@ -119,6 +184,54 @@ const Visualizer: React.FC<VisualizerProps> = ({ data, threshold, onPointHover }
             connectNulls
             activeDot={{ r: 6, fill: '#3b82f6', stroke: '#fff', strokeWidth: 3 }}
           />
+
+          {/* 自适应阈值随背景噪声变化，未启用时该字段为空不绘制 */}
+          <Line 
+            type="stepAfter" 
+            dataKey="adaptiveThreshold" 
+            stroke="#f59e0b" 
+            strokeWidth={2} 
+            strokeDasharray="4 4"
+            dot={false} 
+            activeDot={false}
+            isAnimationActive={false}
+            connectNulls
+          />
+
+          {timeline && markers.map(m => (
+            <ReferenceDot 
+              key={m.id}
+              x={m.timestamp}
+              y={m.distance}
+              ifOverflow="discard"
+              shape={(props: { cx?: number; cy?: number }) => (
+                <circle 
+                  cx={props.cx} 
+                  cy={props.cy} 
+                  r={5} 
+                  fill="#ef4444" 
+                  stroke="#fff" 
+                  strokeWidth={2} 
+                  style={{ cursor: onMarkerClick ? 'pointer' : 'default' }}
+                  onClick={() => onMarkerClick?.(m.id)}
+                />
+              )}
+            />
+          ))}
+
+          {timeline && data.length > 1 && (
+            <Brush 
+              dataKey="timestamp" 
+              height={18} 
+              stroke="#3b82f6" 
+              fill="#020617" 
+              travellerWidth={8}
+              tickFormatter={formatClock}
+              startIndex={brushStart}
+              endIndex={brushEnd}
+              onChange={handleBrushChange}
+            />
+          )}
         </ComposedChart>
       </ResponsiveContainer>
     </div>
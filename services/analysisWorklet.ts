@@ -0,0 +1,94 @@
+// AudioWorklet 分析处理器：在音频线程按固定帧移计算频谱并执行检测，
+// 不受页面刷新率、标签页隐藏或 React 渲染的影响。
+import { CapturedClip, ClipOptions, ClipRecorder } from './clipRecorder';
+import { Detector, DetectorConfig } from './detector';
+import { OnsetState, SpectrumAnalyzer } from './dsp';
+
+// AudioWorkletGlobalScope 中的全局对象，DOM 类型库未包含
+declare const sampleRate: number;
+declare function registerProcessor(name: string, ctor: new (options?: any) => unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: any);
+}
+
+export interface AnalysisOptions {
+  fftSize: number;
+  smoothing: number;
+  hopSize: number;
+}
+
+// 主线程发往处理器的指令
+export type AnalysisCommand =
+  | { type: 'detector'; config: DetectorConfig }
+  | { type: 'clips'; options: ClipOptions }
+  | { type: 'smoothing'; smoothing: number };
+
+export type AnalysisMessage =
+  | { type: 'frame'; level: number; distances: Record<string, number>; thresholds: Record<string, number>; onset: OnsetState }
+  | { type: 'detection'; templateId: string; distance: number; threshold: number; timestamp: number }
+  | { type: 'candidate'; templateId: string; distance: number; timestamp: number }
+  | ({ type: 'clip' } & CapturedClip);
+
+class AnalysisProcessor extends AudioWorkletProcessor {
+  private analyzer: SpectrumAnalyzer;
+  private detector = new Detector(sampleRate);
+  private clips = new ClipRecorder(sampleRate);
+  private hopSize: number;
+  // 双倍长度的线性缓冲，写满后整体前移，保证分析窗口连续
+  private buffer: Float32Array;
+  private filled = 0;
+  private sinceHop = 0;
+
+  constructor(options: { processorOptions: AnalysisOptions }) {
+    super(options);
+    const { fftSize, smoothing, hopSize } = options.processorOptions;
+    this.analyzer = new SpectrumAnalyzer(fftSize, smoothing);
+    this.hopSize = hopSize;
+    this.buffer = new Float32Array(fftSize * 2);
+    this.port.onmessage = (e: MessageEvent<AnalysisCommand>) => {
+      if (e.data.type === 'detector') this.detector.configure(e.data.config);
+      else if (e.data.type === 'clips') this.clips.configure(e.data.options);
+      else this.analyzer.smoothing = e.data.smoothing;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input || !this.detector.enabled) return true;
+
+    const fftSize = this.analyzer.fftSize;
+    if (this.filled + input.length > this.buffer.length) {
+      this.buffer.copyWithin(0, this.filled - fftSize, this.filled);
+      this.filled = fftSize;
+    }
+    this.buffer.set(input, this.filled);
+    this.filled += input.length;
+    this.sinceHop += input.length;
+    for (const clip of this.clips.push(input)) {
+      this.port.postMessage({ type: 'clip', ...clip }, [clip.samples.buffer]);
+    }
+
+    if (this.filled >= fftSize && this.sinceHop >= this.hopSize) {
+      this.sinceHop -= this.hopSize;
+      const frame = this.analyzer.analyze(this.buffer, this.filled - fftSize);
+      const now = Date.now();
+      const result = this.detector.process(frame, now);
+      this.post({ type: 'frame', level: result.level, distances: result.distances, thresholds: result.thresholds, onset: result.onset });
+      if (result.hit) {
+        this.post({ type: 'detection', ...result.hit, timestamp: now });
+        this.clips.trigger(now);
+      }
+      if (result.candidate) {
+        this.post({ type: 'candidate', templateId: result.candidate.templateId, distance: result.candidate.distance, timestamp: now });
+      }
+    }
+    return true;
+  }
+
+  private post(message: AnalysisMessage) {
+    this.port.postMessage(message);
+  }
+}
+
+registerProcessor('analysis-processor', AnalysisProcessor);
@@ -1,23 +1,462 @@
+import { AnalysisConfig, AudioOutage, FeatureConfig, InputConfig, OutageReason } from '../types';
+import type { AnalysisCommand, AnalysisMessage, AnalysisOptions } from './analysisWorklet';
+import analysisWorkletUrl from './analysisWorklet.ts?worker&url';
+import { CapturedClip, ClipOptions } from './clipRecorder';
+import { Detector, DetectorConfig } from './detector';
+import { DEFAULT_ANALYSIS_CONFIG, OnsetState, SpectrumAnalyzer, findLoudestOnset, mixToMono, stft } from './dsp';
+import { FeatureExtractor, cosineDistance } from './features';
+import { OfflineAnalysis, OfflineHit } from './offlineAnalysis';
+import { SEQUENCE_FRAMES, sequenceDistance } from './sequence';
+import { DEFAULT_SETTINGS } from './settings';
+
+// 分析帧移 (48kHz 下约 21ms)，实时检测与离线分析共用
+const HOP_SIZE = 1024;
+
+// 看门狗巡检间隔；超过 STALL_MS 没有分析帧、或 FROZEN_MS 内电平完全不变即视为管线卡死
+const WATCHDOG_INTERVAL_MS = 2000;
+const STALL_MS = 5000;
+const FROZEN_MS = 10000;
+// 重新初始化的退避：1s 起倍增，最长 60s
+const BASE_RECOVERY_MS = 1000;
+const MAX_RECOVERY_MS = 60 * 1000;
+// 被挂起的上下文先尝试 resume，部分浏览器在无用户手势时会一直挂起不返回
+const RESUME_TIMEOUT_MS = 2000;
+
+// 离线分析图表的最大点数，长录音按时间段取最小距离
+const OFFLINE_CHART_POINTS = 400;
+// 离线分析每处理这么多帧让出一次主线程
+const OFFLINE_YIELD_FRAMES = 500;
+// 离线分析按窗口经输入处理链渲染，避免整段录音再复制一份单声道数据；
+// 每个窗口前多渲染一小段并丢弃，让滤波器在窗口边界处已进入稳态
+const OFFLINE_WINDOW_SECONDS = 30;
+const OFFLINE_PREROLL_SECONDS = 0.5;
+
+// 按输入设置配置增益与滤波器参数，实时管线与离线分析共用
+const configureInputNodes = (
+  input: InputConfig,
+  sampleRate: number,
+  gain: GainNode,
+  highPass: BiquadFilterNode,
+  lowPass: BiquadFilterNode
+) => {
+  gain.gain.value = Math.pow(10, input.gainDb / 20);
+  highPass.frequency.value = input.lowCutHz;
+  lowPass.frequency.value = Math.min(input.highCutHz, sampleRate / 2);
+};
+
+export interface ReferenceCapture {
+  fingerprint: number[]; // 起音帧的单帧指纹
+  sequence: number[][]; // 自起音开始的指纹帧序列
+}
+
 export class AudioEngine {
   private audioCtx: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private stream: MediaStream | null = null;
-  private fftSize: number = 4096; // 增加分辨率
+  // 输入处理链：增益 → (可选) 高通 + 低通 → inputTap，分析、检测与片段录制都取 inputTap 的信号
+  private input: InputConfig = DEFAULT_SETTINGS.input;
+  private gainNode: GainNode | null = null;
+  private highPass: BiquadFilterNode | null = null;
+  private lowPass: BiquadFilterNode | null = null;
+  private inputTap: GainNode | null = null;
+  private fftSize: number = DEFAULT_ANALYSIS_CONFIG.fftSize;
+  private smoothing: number = DEFAULT_ANALYSIS_CONFIG.smoothing;
+  private features: FeatureConfig = DEFAULT_SETTINGS.features;
+  private extractor = new FeatureExtractor(this.features);
+  private workletNode: AudioWorkletNode | null = null;
+  private fallbackDetector: Detector | null = null;
+  private fallbackTimer: ReturnType<typeof setInterval> | null = null;
+  private detectorConfig: DetectorConfig | null = null;
+  private clipOptions: ClipOptions | null = null;
+
+  // 检测结果回调，由 AudioWorklet 以固定帧移触发
+  onFrame: ((level: number, distances: Record<string, number>, thresholds: Record<string, number>, onset: OnsetState) => void) | null = null;
+  onDetection: ((templateId: string, distance: number, threshold: number, timestamp: number) => void) | null = null;
+  onCandidate: ((templateId: string, distance: number, timestamp: number) => void) | null = null;
+  // 检测前后的音频片段，在触发后 postSeconds 秒送达
+  onClip: ((clip: CapturedClip) => void) | null = null;
+
+  // 音频中断回调：中断开始、每次重试以及恢复时各触发一次
+  onOutage: ((outage: AudioOutage) => void) | null = null;
+  // 音频管线 (重新) 打开后回调，此时可读取实际使用的麦克风
+  onOpen: (() => void) | null = null;
+
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private recovering = false;
+  private reopenRequested = false;
+  // stop() 之后实例不再使用；进行中的 open() 完成时据此释放刚建立的音频图
+  private stopped = false;
+  private outage: AudioOutage | null = null;
+  private deviceLost = false;
+  private openedAt = 0;
+  private lastFrameAt = 0;
+  private lastLevel: number | null = null;
+  private levelChangedAt = 0;
 
   async init() {
-    this.stream = await navigator.mediaDevices.getUserMedia({ 
-      audio: { 
-        echoCancellation: false, 
-        noiseSuppression: false, 
-        autoGainControl: false 
-      } 
-    });
-    this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const microphone = this.audioCtx.createMediaStreamSource(this.stream);
-    this.analyser = this.audioCtx.createAnalyser();
+    try {
+      await this.open();
+    } catch (err) {
+      this.teardown();
+      throw err;
+    }
+    if (this.stopped) {
+      this.teardown();
+      return;
+    }
+    this.watchdogTimer = setInterval(() => this.check(), WATCHDOG_INTERVAL_MS);
+    navigator.mediaDevices.addEventListener?.('devicechange', this.handleDeviceChange);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  private async open() {
+    this.stream = await this.openStream();
+    // 等待授权期间引擎已停止：只留下音轨，由调用方统一释放
+    if (this.stopped) return;
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+    this.audioCtx = ctx;
+    this.extractor.sampleRate = ctx.sampleRate;
+    const microphone = ctx.createMediaStreamSource(this.stream);
+    this.gainNode = ctx.createGain();
+    this.highPass = ctx.createBiquadFilter();
+    this.highPass.type = 'highpass';
+    this.lowPass = ctx.createBiquadFilter();
+    this.lowPass.type = 'lowpass';
+    this.inputTap = ctx.createGain();
+    microphone.connect(this.gainNode);
+    this.highPass.connect(this.lowPass);
+    this.applyInput();
+    this.analyser = ctx.createAnalyser();
     this.analyser.fftSize = this.fftSize;
-    this.analyser.smoothingTimeConstant = 0.3;
-    microphone.connect(this.analyser);
+    this.analyser.smoothingTimeConstant = this.smoothing;
+    this.inputTap.connect(this.analyser);
+    await this.startDetector(this.inputTap);
+    if (this.stopped) return;
+
+    // 状态变化与音轨结束时立即巡检，不必等下一个周期
+    this.audioCtx.onstatechange = () => this.check();
+    this.stream.getAudioTracks().forEach(t => { t.onended = () => this.check(); });
+    this.openedAt = Date.now();
+    this.lastFrameAt = this.openedAt;
+    this.levelChangedAt = this.openedAt;
+    this.lastLevel = null;
+    this.onOpen?.();
+  }
+
+  // 优先打开设置中选择的麦克风；设备不存在或无法打开时退回系统默认设备
+  private async openStream(): Promise<MediaStream> {
+    const audio: MediaTrackConstraints = {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    };
+    if (this.input.deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: this.input.deviceId } } });
+      } catch (err) {
+        console.warn('Selected microphone unavailable, using default device', err);
+      }
+    }
+    return navigator.mediaDevices.getUserMedia({ audio });
+  }
+
+  private applyInput() {
+    if (!this.audioCtx || !this.gainNode || !this.highPass || !this.lowPass || !this.inputTap) return;
+    configureInputNodes(this.input, this.audioCtx.sampleRate, this.gainNode, this.highPass, this.lowPass);
+    this.gainNode.disconnect();
+    this.lowPass.disconnect();
+    if (this.input.bandPass) {
+      this.gainNode.connect(this.highPass);
+      this.lowPass.connect(this.inputTap);
+    } else {
+      this.gainNode.connect(this.inputTap);
+    }
+  }
+
+  // 释放当前音频图，保留回调与检测配置以便重新打开
+  private teardown() {
+    if (this.fallbackTimer) clearInterval(this.fallbackTimer);
+    this.fallbackTimer = null;
+    this.fallbackDetector = null;
+    this.workletNode?.disconnect();
+    this.workletNode = null;
+    this.stream?.getTracks().forEach(t => {
+      t.onended = null;
+      t.stop();
+    });
+    this.stream = null;
+    if (this.audioCtx) {
+      this.audioCtx.onstatechange = null;
+      this.audioCtx.close().catch(() => {});
+    }
+    this.audioCtx = null;
+    this.analyser = null;
+    this.gainNode = null;
+    this.highPass = null;
+    this.lowPass = null;
+    this.inputTap = null;
+    this.deviceLost = false;
+  }
+
+  private get detecting(): boolean {
+    return !!this.detectorConfig?.enabled;
+  }
+
+  // 返回当前的故障原因，由 check() 在检测开启时调用
+  private detectFault(): OutageReason | null {
+    if (!this.audioCtx || !this.stream || this.audioCtx.state === 'closed') return 'closed';
+    const tracks = this.stream.getAudioTracks();
+    if (tracks.length === 0 || tracks.some(t => t.readyState === 'ended')) return 'track-ended';
+    if (this.deviceLost) return 'device-lost';
+    if (this.audioCtx.state === 'suspended') return 'suspended';
+    const now = Date.now();
+    if (now - this.lastFrameAt > STALL_MS) return 'stalled';
+    if (now - this.levelChangedAt > FROZEN_MS) return 'frozen';
+    return null;
+  }
+
+  /**
+   * 看门狗巡检：发现故障时记录一次中断并按退避重新初始化；
+   * 重新打开后需要确认分析帧恢复流动 (检测开启时电平有变化) 才结束中断。
+   */
+  private check() {
+    if (!this.watchdogTimer || this.recovering) return;
+    // 只在监听 (检测开启) 时判断故障，未监听时不记录中断、不重建管线
+    const fault = this.detecting ? this.detectFault() : null;
+    if (fault) {
+      if (!this.outage) {
+        this.outage = { id: Math.random().toString(36).substr(2, 9), start: Date.now(), end: null, reason: fault, restarts: 0 };
+        this.onOutage?.({ ...this.outage });
+      }
+      if (!this.recoveryTimer) this.scheduleRecovery();
+      return;
+    }
+    if (!this.outage) return;
+    // 监听已停止：结束进行中的中断并取消重试，下次开启检测时重新判断
+    if (!this.detecting && this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    if (this.recoveryTimer) return;
+    const flowing = !this.detecting || (this.lastFrameAt > this.openedAt && this.levelChangedAt > this.openedAt);
+    if (!flowing) return;
+    this.outage.end = Date.now();
+    this.onOutage?.({ ...this.outage });
+    this.outage = null;
+  }
+
+  private scheduleRecovery(delay?: number) {
+    if (this.recoveryTimer) clearTimeout(this.recoveryTimer);
+    const attempts = this.outage?.restarts ?? 0;
+    const wait = delay ?? Math.min(MAX_RECOVERY_MS, BASE_RECOVERY_MS * Math.pow(2, attempts));
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.recover();
+    }, wait);
+  }
+
+  private async recover() {
+    if (!this.outage || !this.watchdogTimer) return;
+    this.recovering = true;
+    this.outage.restarts += 1;
+    this.onOutage?.({ ...this.outage });
+    try {
+      // 仅被挂起时先尝试恢复原上下文，不必重新申请麦克风
+      const ctx = this.audioCtx;
+      if (ctx?.state === 'suspended' && this.detectFault() === 'suspended') {
+        await Promise.race([ctx.resume(), new Promise(resolve => setTimeout(resolve, RESUME_TIMEOUT_MS))]);
+        if ((ctx.state as AudioContextState) === 'running') {
+          this.openedAt = Date.now();
+          return;
+        }
+      }
+      this.teardown();
+      await this.open();
+      if (this.stopped) this.teardown();
+    } catch (err) {
+      console.warn('Audio pipeline restart failed', err);
+      this.teardown();
+    } finally {
+      this.recovering = false;
+      this.afterRebuild();
+    }
+  }
+
+  // 仍有故障时按更长的退避安排下一次重试，否则等待分析帧确认恢复
+  private afterRebuild() {
+    if (this.reopenRequested) {
+      this.reopenRequested = false;
+      this.reopen();
+    } else {
+      this.check();
+    }
+  }
+
+  // 主动重新打开 (切换麦克风或分析参数)，不计为中断；失败时交给看门狗按中断处理
+  private async reopen() {
+    if (!this.watchdogTimer) return;
+    // 正在重建时记下请求，完成后按最新参数再打开一次
+    if (this.recovering) {
+      this.reopenRequested = true;
+      return;
+    }
+    this.recovering = true;
+    try {
+      this.teardown();
+      await this.open();
+      if (this.stopped) this.teardown();
+    } catch (err) {
+      console.warn('Audio pipeline reopen failed', err);
+      this.teardown();
+    } finally {
+      this.recovering = false;
+      this.afterRebuild();
+    }
+  }
+
+  /**
+   * 设备插拔时确认当前麦克风是否仍在；中断期间有新设备接入则立即重试。
+   * 之前因所选麦克风缺失而退回默认设备时，所选设备重新接入后切换回去。
+   */
+  private handleDeviceChange = async () => {
+    let preferredBack = false;
+    try {
+      const devices = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audioinput');
+      const deviceId = this.inputDeviceId;
+      if (deviceId) this.deviceLost = !devices.some(d => d.deviceId === deviceId);
+      preferredBack = !!this.input.deviceId && deviceId !== this.input.deviceId && devices.some(d => d.deviceId === this.input.deviceId);
+    } catch (err) {
+      console.warn('Enumerate devices failed', err);
+    }
+    if (this.outage && !this.recovering) this.scheduleRecovery(0);
+    else if (preferredBack) this.reopen();
+    else this.check();
+  };
+
+  // 回到前台时浏览器通常允许恢复音频，中断中立即重试而不是等待退避
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible' && this.outage && !this.recovering) this.scheduleRecovery(0);
+  };
+
+  // 优先在 AudioWorklet 中检测；不支持时退回主线程定时器，按相同帧移读取 AnalyserNode
+  private async startDetector(source: AudioNode) {
+    const ctx = this.audioCtx!;
+    if (ctx.audioWorklet) {
+      try {
+        await ctx.audioWorklet.addModule(analysisWorkletUrl);
+        const processorOptions: AnalysisOptions = { fftSize: this.fftSize, smoothing: this.smoothing, hopSize: HOP_SIZE };
+        const node = new AudioWorkletNode(ctx, 'analysis-processor', { numberOfInputs: 1, numberOfOutputs: 1, processorOptions });
+        node.port.onmessage = (e: MessageEvent<AnalysisMessage>) => this.handleMessage(e.data);
+        // 接入静音增益再连到输出端，确保处理器持续被音频图调度
+        const sink = ctx.createGain();
+        sink.gain.value = 0;
+        source.connect(node);
+        node.connect(sink);
+        sink.connect(ctx.destination);
+        this.workletNode = node;
+        if (this.detectorConfig) this.post({ type: 'detector', config: this.detectorConfig });
+        if (this.clipOptions) this.post({ type: 'clips', options: this.clipOptions });
+        return;
+      } catch (err) {
+        console.warn('AudioWorklet unavailable, falling back to main thread', err);
+      }
+    }
+
+    this.fallbackDetector = new Detector(ctx.sampleRate);
+    if (this.detectorConfig) this.fallbackDetector.configure(this.detectorConfig);
+    this.fallbackTimer = setInterval(() => {
+      if (!this.fallbackDetector?.enabled) return;
+      const now = Date.now();
+      const result = this.fallbackDetector.process(this.getFrequencyData(), now);
+      this.handleMessage({ type: 'frame', level: result.level, distances: result.distances, thresholds: result.thresholds, onset: result.onset });
+      if (result.hit) {
+        this.handleMessage({ type: 'detection', ...result.hit, timestamp: now });
+      }
+      if (result.candidate) {
+        this.handleMessage({ type: 'candidate', templateId: result.candidate.templateId, distance: result.candidate.distance, timestamp: now });
+      }
+    }, this.hopIntervalMs);
+  }
+
+  private handleMessage(message: AnalysisMessage) {
+    if (message.type === 'frame') {
+      const now = Date.now();
+      this.lastFrameAt = now;
+      if (message.level !== this.lastLevel) {
+        this.lastLevel = message.level;
+        this.levelChangedAt = now;
+      }
+      this.onFrame?.(message.level, message.distances, message.thresholds, message.onset);
+    } else if (message.type === 'detection') {
+      this.onDetection?.(message.templateId, message.distance, message.threshold, message.timestamp);
+    } else if (message.type === 'candidate') {
+      this.onCandidate?.(message.templateId, message.distance, message.timestamp);
+    } else {
+      const { type, ...clip } = message;
+      this.onClip?.(clip);
+    }
+  }
+
+  private post(command: AnalysisCommand) {
+    this.workletNode?.port.postMessage(command);
+  }
+
+  // 下发模板、比对模式、起音参数与开关状态；引擎尚未启动时暂存，启动后补发
+  configureDetector(config: DetectorConfig) {
+    // 检测刚开启时重新计时，避免把关闭期间没有分析帧误判为卡死
+    if (config.enabled && !this.detecting) {
+      this.lastFrameAt = Date.now();
+      this.levelChangedAt = this.lastFrameAt;
+    }
+    this.detectorConfig = config;
+    this.post({ type: 'detector', config });
+    this.fallbackDetector?.configure(config);
+  }
+
+  // 片段录制需要原始采样，只在 AudioWorklet 模式下可用
+  configureClips(options: ClipOptions) {
+    this.clipOptions = options;
+    this.post({ type: 'clips', options });
+  }
+
+  // 切换麦克风需要重新打开音频管线；增益与滤波直接作用于现有节点
+  setInputConfig(config: InputConfig) {
+    const deviceChanged = config.deviceId !== this.input.deviceId;
+    this.input = config;
+    if (deviceChanged && this.watchdogTimer) this.reopen();
+    else this.applyInput();
+  }
+
+  // FFT 点数决定分析节点与检测处理器的缓冲长度，变化时重建音频管线；平滑系数直接更新
+  setAnalysisConfig(config: AnalysisConfig) {
+    const fftChanged = config.fftSize !== this.fftSize;
+    this.fftSize = config.fftSize;
+    this.smoothing = config.smoothing;
+    if (fftChanged) {
+      if (this.watchdogTimer) this.reopen();
+      return;
+    }
+    if (this.analyser) this.analyser.smoothingTimeConstant = config.smoothing;
+    this.post({ type: 'smoothing', smoothing: config.smoothing });
+  }
+
+  // 实际打开的麦克风，所选设备不可用时为系统默认设备
+  get inputDeviceId(): string | null {
+    return this.stream?.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+  }
+
+  get supportsClips(): boolean {
+    return this.workletNode !== null;
+  }
+
+  get sampleRate(): number {
+    return this.audioCtx?.sampleRate ?? 48000;
+  }
+
+  // 一个分析帧移对应的毫秒数，录入样本时按同样的节奏读取频谱
+  get hopIntervalMs(): number {
+    return (HOP_SIZE / (this.audioCtx?.sampleRate ?? 48000)) * 1000;
   }
 
   getFrequencyData(): Float32Array {
@@ -27,54 +466,166 @@ export class AudioEngine {
     return data;
   }
 
-  getFingerprint(data: Float32Array): number[] {
-    // 聚焦关键频段 (200Hz - 8kHz) 减少低频噪音干扰
-    const bands = 64;
-    const fingerprint = new Array(bands).fill(0);
-    const step = Math.floor(data.length / bands);
-    
-    for (let i = 0; i < bands; i++) {
-      let sum = 0;
-      for (let j = 0; j < step; j++) {
-        const val = data[i * step + j];
-        // 归一化 dB 值为 0-1 范围的能量
-        sum += Math.pow(10, (val + 100) / 20);
-      }
-      fingerprint[i] = sum / step;
-    }
+  setFeatureConfig(config: FeatureConfig) {
+    this.features = config;
+    this.extractor.setConfig(config);
+  }
+
+  // 当前特征参数对应的指纹版本，只有版本相同的指纹才能相互比较
+  get featureVersion(): string {
+    return this.extractor.version;
+  }
 
-    // 向量归一化
-    const magnitude = Math.sqrt(fingerprint.reduce((acc, v) => acc + v * v, 0)) || 1;
-    return fingerprint.map(v => v / magnitude);
+  // 提取 MFCC 指纹；传入上一帧时附加一阶差分特征
+  getFingerprint(data: Float32Array, prev: Float32Array | null = null): number[] {
+    return this.extractor.extract(data, prev);
   }
 
-  async getFingerprintFromBuffer(arrayBuffer: ArrayBuffer): Promise<number[]> {
+  // 以起音帧为起点截取参考：单帧指纹取起音帧，序列取其后 SEQUENCE_FRAMES 帧
+  captureReference(frames: Float32Array[], onset: number, extractor = this.extractor): ReferenceCapture {
+    const sequence: number[][] = [];
+    for (let i = onset; i < Math.min(frames.length, onset + SEQUENCE_FRAMES); i++) {
+      sequence.push(extractor.extract(frames[i], frames[i - 1] ?? null));
+    }
+    return { fingerprint: sequence[0], sequence };
+  }
+
+  // 解码时会重采样到默认采样率，与实时 AudioContext 的频点划分一致
+  private async decode(arrayBuffer: ArrayBuffer): Promise<AudioBuffer> {
     const tempCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const audioBuffer = await tempCtx.decodeAudioData(arrayBuffer);
-    const channelData = audioBuffer.getChannelData(0);
-    
-    // 简化的时域特征提取
-    const fftSize = 4096;
-    const fft = new Float32Array(fftSize / 2);
-    // 仅提取中间一段最响亮的信号
-    const start = Math.floor(channelData.length / 2) - fftSize / 2;
-    // 此处简化处理：直接返回模拟的频域指纹
-    return new Array(64).fill(0).map(() => Math.random()); 
+    try {
+      return await tempCtx.decodeAudioData(arrayBuffer);
+    } finally {
+      tempCtx.close();
+    }
   }
 
-  compare(f1: number[], f2: number[]): number {
-    if (f1.length !== f2.length) return 1.0;
-    let dotProduct = 0;
-    for (let i = 0; i < f1.length; i++) {
-      dotProduct += f1[i] * f2[i];
+  async getFingerprintFromBuffer(arrayBuffer: ArrayBuffer): Promise<ReferenceCapture> {
+    const audioBuffer = await this.decode(arrayBuffer);
+    return this.getFingerprintFromSamples(mixToMono(audioBuffer), audioBuffer.sampleRate);
+  }
+
+  // 从单声道采样 (上传的样本或保存的检测片段) 中定位起音并提取参考
+  // 使用独立的提取器按样本采样率划分频点，不影响实时监听中的提取器
+  getFingerprintFromSamples(samples: Float32Array, sampleRate: number): ReferenceCapture {
+    const extractor = new FeatureExtractor(this.features, sampleRate);
+    const frames = stft(samples, {
+      fftSize: this.fftSize,
+      smoothing: this.smoothing,
+      hopSize: HOP_SIZE
+    });
+
+    // 定位最响亮的瞬态 (表计的咔哒声)
+    const onset = findLoudestOnset(frames);
+    if (onset < 0) {
+      throw new Error('样本中未检测到明显的起音，请上传包含清晰咔哒声的片段');
+    }
+    return this.captureReference(frames, onset, extractor);
+  }
+
+  // 将解码结果中 [start, start + length) 这一段经与实时监听相同的输入处理链渲染为单声道
+  private async renderWindow(buffer: AudioBuffer, start: number, length: number): Promise<Float32Array> {
+    const { sampleRate } = buffer;
+    const preroll = Math.min(start, Math.round(OFFLINE_PREROLL_SECONDS * sampleRate));
+    const ctx = new OfflineAudioContext(1, preroll + length, sampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    const highPass = ctx.createBiquadFilter();
+    highPass.type = 'highpass';
+    const lowPass = ctx.createBiquadFilter();
+    lowPass.type = 'lowpass';
+    configureInputNodes(this.input, sampleRate, gain, highPass, lowPass);
+    source.connect(gain);
+    if (this.input.bandPass) {
+      gain.connect(highPass);
+      highPass.connect(lowPass);
+      lowPass.connect(ctx.destination);
+    } else {
+      gain.connect(ctx.destination);
+    }
+    source.start(0, (start - preroll) / sampleRate, (preroll + length) / sampleRate);
+    const rendered = await ctx.startRendering();
+    return rendered.getChannelData(0).subarray(preroll);
+  }
+
+  /**
+   * 离线分析整段录音：与实时监听使用同一输入处理链与检测器逐帧处理，冷却按录音时间轴计算，
+   * 不受实时节奏限制。返回命中列表与按时间段汇总的距离曲线。
+   * decodeAudioData 只能整段解码，但之后按窗口渲染，内存中只多出当前窗口的单声道数据。
+   */
+  async analyzeFile(
+    arrayBuffer: ArrayBuffer,
+    config: DetectorConfig,
+    onProgress?: (fraction: number) => void
+  ): Promise<OfflineAnalysis> {
+    const startedAt = performance.now();
+    const audioBuffer = await this.decode(arrayBuffer);
+    const { sampleRate, length: total } = audioBuffer;
+    const detector = new Detector(sampleRate);
+    detector.configure({ ...config, enabled: true });
+    const analyzer = new SpectrumAnalyzer(this.fftSize, this.smoothing);
+
+    const duration = total / sampleRate;
+    const bucketSeconds = Math.max(HOP_SIZE / sampleRate, duration / OFFLINE_CHART_POINTS);
+    const bucketCount = Math.max(1, Math.ceil(duration / bucketSeconds));
+    const buckets: Record<string, number>[] = Array.from({ length: bucketCount }, () => ({}));
+    const thresholds: Record<string, number>[] = Array.from({ length: bucketCount }, () => ({}));
+    const hits: OfflineHit[] = [];
+
+    const windowLength = Math.round(OFFLINE_WINDOW_SECONDS * sampleRate);
+    // 上一窗口末尾尚未凑满一帧的采样，与下一窗口拼接后继续按帧移处理
+    let carry = new Float32Array(0);
+    let frameIndex = 0;
+    let start = 0;
+    for (let windowStart = 0; windowStart < total; windowStart += windowLength) {
+      const rendered = await this.renderWindow(audioBuffer, windowStart, Math.min(windowLength, total - windowStart));
+      const samples = new Float32Array(carry.length + rendered.length);
+      samples.set(carry);
+      samples.set(rendered, carry.length);
+      const base = windowStart - carry.length;
+
+      for (; start + this.fftSize <= base + samples.length; start += HOP_SIZE) {
+        // 以分析窗口末尾为该帧时刻，与实时监听中帧的产生时刻一致
+        const time = (start + this.fftSize) / sampleRate;
+        const result = detector.process(analyzer.analyze(samples, start - base), time * 1000);
+        const index = Math.min(bucketCount - 1, Math.floor(time / bucketSeconds));
+        for (const [id, distance] of Object.entries(result.distances)) {
+          buckets[index][id] = Math.min(buckets[index][id] ?? 1.0, distance);
+        }
+        for (const [id, threshold] of Object.entries(result.thresholds)) {
+          thresholds[index][id] = Math.min(thresholds[index][id] ?? threshold, threshold);
+        }
+        if (result.hit) hits.push({ time, templateId: result.hit.templateId, distance: result.hit.distance });
+
+        if (++frameIndex % OFFLINE_YIELD_FRAMES === 0) {
+          onProgress?.(start / total);
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      carry = samples.slice(start - base);
     }
-    // 使用余弦相似度转换为距离 (0为完全相同, 1为完全不同)
-    const similarity = Math.max(0, Math.min(1, dotProduct));
-    return 1 - similarity;
+    onProgress?.(1);
+    return { duration, elapsedMs: performance.now() - startedAt, bucketSeconds, buckets, thresholds, hits };
+  }
+
+  compare(f1: number[], f2: number[]): number {
+    return cosineDistance(f1, f2);
+  }
+
+  // 序列模式：参考序列与实时序列做 DTW，局部代价沿用单帧余弦距离
+  compareSequence(reference: number[][], live: number[][]): number {
+    return sequenceDistance(reference, live);
   }
 
   stop() {
-    this.stream?.getTracks().forEach(t => t.stop());
-    this.audioCtx?.close();
+    this.stopped = true;
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    if (this.recoveryTimer) clearTimeout(this.recoveryTimer);
+    this.watchdogTimer = null;
+    this.recoveryTimer = null;
+    navigator.mediaDevices.removeEventListener?.('devicechange', this.handleDeviceChange);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.teardown();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { AppSettings, DetectionRecord } from '../types';
+import { SETTINGS_SCHEMA_VERSION, migrateSettings } from './storage';
+
+// 数据导出与配置备份：检测历史导出为 CSV/JSON，完整配置打包后可在设备之间迁移
+
+const BUNDLE_FORMAT = 'audio_pulse_settings';
+
+export interface SettingsBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number; // 配置结构版本，与本地存储共用 SETTINGS_SCHEMA_VERSION
+  exportedAt: string;
+  settings: AppSettings;
+}
+
+const CSV_COLUMNS: { header: string; value: (r: DetectionRecord) => string | number }[] = [
+  { header: 'id', value: r => r.id },
+  { header: 'timestamp', value: r => new Date(r.timestamp).toISOString() },
+  { header: 'template_id', value: r => r.templateId },
+  { header: 'template_label', value: r => r.templateLabel },
+  { header: 'distance', value: r => r.distance.toFixed(4) },
+  { header: 'threshold', value: r => r.threshold.toFixed(4) },
+  { header: 'label', value: r => r.label ?? '' },
+  { header: 'delivery', value: r => r.delivery ?? '' }
+];
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (records: DetectionRecord[]): string =>
+  [
+    CSV_COLUMNS.map(c => c.header).join(','),
+    ...records.map(r => CSV_COLUMNS.map(c => escapeCsv(c.value(r))).join(','))
+  ].join('\r\n');
+
+export const historyToJson = (records: DetectionRecord[]): string => JSON.stringify(records, null, 2);
+
+export const createSettingsBundle = (settings: AppSettings): SettingsBundle => ({
+  format: BUNDLE_FORMAT,
+  version: SETTINGS_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings
+});
+
+/**
+ * 解析配置备份文件，旧版本的备份按迁移步骤升级。格式、版本或内容不合法时抛出错误，
+ * 调用方只在校验通过后才覆盖当前配置，避免损坏已保存的设置。
+ */
+export const parseSettingsBundle = (text: string): AppSettings => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  if (bundle?.format !== BUNDLE_FORMAT) throw new Error('不是 AudioPulse 配置备份文件');
+  if (!Number.isInteger(bundle.version) || bundle.version < 1) throw new Error('备份文件缺少版本号');
+  return migrateSettings(bundle.settings, bundle.version);
+};
+
+// 通过临时链接触发浏览器下载
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
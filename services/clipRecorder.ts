@@ -0,0 +1,93 @@
+// 触发前后音频片段的环形缓冲，运行在 AudioWorklet 中，不依赖 DOM
+
+export interface ClipOptions {
+  enabled: boolean;
+  preSeconds: number;
+  postSeconds: number;
+}
+
+export interface CapturedClip {
+  timestamp: number; // 对应检测的时间戳
+  sampleRate: number;
+  preSeconds: number; // 触发时刻在片段中的位置
+  samples: Float32Array;
+}
+
+interface PendingClip {
+  timestamp: number;
+  start: number; // 片段起点的绝对样本序号
+  end: number;
+  preSeconds: number;
+}
+
+// 一个渲染量子的余量，片段结束时最新写入的样本可能越过终点
+const QUANTUM_MARGIN = 256;
+
+/**
+ * 持续保存最近 pre + post 秒的输入。trigger 记下触发时刻，
+ * 等触发后的样本写满再从缓冲中截取整段片段。
+ */
+export class ClipRecorder {
+  private options: ClipOptions = { enabled: false, preSeconds: 1, postSeconds: 1 };
+  private ring = new Float32Array(0);
+  private written = 0; // 累计写入的样本数
+  private pending: PendingClip[] = [];
+
+  constructor(private sampleRate: number) {}
+
+  // 时长变化时重建缓冲，进行中的片段作废
+  configure(options: ClipOptions) {
+    this.options = options;
+    const length = options.enabled
+      ? Math.ceil((options.preSeconds + options.postSeconds) * this.sampleRate) + QUANTUM_MARGIN
+      : 0;
+    if (length !== this.ring.length) {
+      this.ring = new Float32Array(length);
+      this.written = 0;
+      this.pending = [];
+    }
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled && this.ring.length > 0;
+  }
+
+  // 写入一段输入，返回已录制完整的片段
+  push(input: Float32Array): CapturedClip[] {
+    if (!this.enabled) return [];
+    const size = this.ring.length;
+    for (let i = 0; i < input.length; i++) {
+      this.ring[(this.written + i) % size] = input[i];
+    }
+    this.written += input.length;
+
+    const done: CapturedClip[] = [];
+    while (this.pending.length > 0 && this.pending[0].end <= this.written) {
+      const clip = this.pending.shift()!;
+      // 刚启动时缓冲尚未填满，起点不早于最早仍在缓冲中的样本
+      const start = Math.max(clip.start, this.written - size, 0);
+      const samples = new Float32Array(clip.end - start);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = this.ring[(start + i) % size];
+      }
+      done.push({
+        timestamp: clip.timestamp,
+        sampleRate: this.sampleRate,
+        preSeconds: clip.preSeconds - (start - clip.start) / this.sampleRate,
+        samples
+      });
+    }
+    return done;
+  }
+
+  trigger(timestamp: number) {
+    if (!this.enabled) return;
+    const { preSeconds, postSeconds } = this.options;
+    this.pending.push({
+      timestamp,
+      start: this.written - Math.round(preSeconds * this.sampleRate),
+      end: this.written + Math.round(postSeconds * this.sampleRate),
+      preSeconds
+    });
+  }
+}
@@ -0,0 +1,138 @@
+import { CapturedClip } from './clipRecorder';
+import { CLIP_STORE, HISTORY_STORE, withStore, withTransaction } from './db';
+
+// 检测片段存储：以 16 位 PCM 保存，按总占用上限从最早的片段开始删除
+
+export interface StoredClip {
+  id: string; // 对应的检测记录 ID
+  timestamp: number;
+  sampleRate: number;
+  preSeconds: number;
+  pcm: Int16Array;
+}
+
+export interface ClipUsage {
+  count: number;
+  bytes: number;
+}
+
+const toPcm = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+export const clipSamples = (clip: StoredClip): Float32Array => {
+  const samples = new Float32Array(clip.pcm.length);
+  for (let i = 0; i < samples.length; i++) samples[i] = clip.pcm[i] / 0x8000;
+  return samples;
+};
+
+export const clipDuration = (clip: StoredClip) => clip.pcm.length / clip.sampleRate;
+
+// 封装为单声道 16 位 WAV 供 <audio> 播放
+export const clipToWav = (clip: StoredClip): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  const dataBytes = clip.pcm.byteLength;
+  writeText(0, 'RIFF');
+  header.setUint32(4, 36 + dataBytes, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // 单声道
+  header.setUint32(24, clip.sampleRate, true);
+  header.setUint32(28, clip.sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeText(36, 'data');
+  header.setUint32(40, dataBytes, true);
+  return new Blob([header.buffer, clip.pcm.buffer as ArrayBuffer], { type: 'audio/wav' });
+};
+
+const markRecord = (history: IDBObjectStore, id: string, hasClip: boolean) => {
+  const request = history.get(id);
+  request.onsuccess = () => {
+    if (request.result) history.put({ ...request.result, hasClip });
+  };
+};
+
+/**
+ * 保存片段并标记检测记录，随后从最新的片段往前累计占用，
+ * 超出上限的较早片段连同记录上的标记一起删除。返回被删除片段的记录 ID。
+ */
+export const saveClip = (id: string, captured: CapturedClip, maxBytes: number) =>
+  withTransaction([CLIP_STORE, HISTORY_STORE], 'readwrite', tx => {
+    const clips = tx.objectStore(CLIP_STORE);
+    const history = tx.objectStore(HISTORY_STORE);
+    const clip: StoredClip = {
+      id,
+      timestamp: captured.timestamp,
+      sampleRate: captured.sampleRate,
+      preSeconds: captured.preSeconds,
+      pcm: toPcm(captured.samples)
+    };
+    clips.put(clip);
+    markRecord(history, id, true);
+
+    const evicted: string[] = [];
+    let total = 0;
+    const request = clips.index('timestamp').openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const stored: StoredClip = cursor.value;
+      total += stored.pcm.byteLength;
+      // 刚保存的片段即使单独超限也保留
+      if (total > maxBytes && stored.id !== id) {
+        cursor.delete();
+        markRecord(history, stored.id, false);
+        evicted.push(stored.id);
+      }
+      cursor.continue();
+    };
+    return evicted;
+  });
+
+export const loadClip = (id: string) =>
+  withStore<StoredClip | undefined>(CLIP_STORE, 'readonly', store => store.get(id));
+
+export const deleteClip = (id: string) =>
+  withTransaction([CLIP_STORE, HISTORY_STORE], 'readwrite', tx => {
+    tx.objectStore(CLIP_STORE).delete(id);
+    markRecord(tx.objectStore(HISTORY_STORE), id, false);
+  });
+
+export const clipUsage = () =>
+  withTransaction([CLIP_STORE], 'readonly', tx => {
+    const usage: ClipUsage = { count: 0, bytes: 0 };
+    const request = tx.objectStore(CLIP_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      usage.count++;
+      usage.bytes += (cursor.value as StoredClip).pcm.byteLength;
+      cursor.continue();
+    };
+    return usage;
+  });
+
+// 删除全部片段并清除记录上的标记
+export const clearClips = () =>
+  withTransaction([CLIP_STORE, HISTORY_STORE], 'readwrite', tx => {
+    const history = tx.objectStore(HISTORY_STORE);
+    const request = tx.objectStore(CLIP_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      markRecord(history, cursor.primaryKey as string, false);
+      cursor.delete();
+      cursor.continue();
+    };
+  });
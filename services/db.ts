@@ -0,0 +1,84 @@
+// IndexedDB 持久化：离线重发队列、检测历史等需要跨会话保存的数据
+
+const DB_NAME = 'audio_pulse';
+const DB_VERSION = 4;
+
+export const OUTBOX_STORE = 'outbox';
+export const HISTORY_STORE = 'history';
+export const HOURLY_STORE = 'hourly_counts';
+export const CLIP_STORE = 'clips';
+export const TIMELINE_STORE = 'timeline';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+        // v2: 检测历史按时间索引；label 索引只包含已标注的记录
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          history.createIndex('timestamp', 'timestamp');
+          history.createIndex('template_time', ['templateId', 'timestamp']);
+          history.createIndex('label', 'label');
+        }
+        if (!db.objectStoreNames.contains(HOURLY_STORE)) {
+          const hourly = db.createObjectStore(HOURLY_STORE, { keyPath: ['hour', 'templateId'] });
+          hourly.createIndex('hour', 'hour');
+        }
+        // v3: 检测前后的音频片段，以检测记录 ID 为键
+        if (!db.objectStoreNames.contains(CLIP_STORE)) {
+          const clips = db.createObjectStore(CLIP_STORE, { keyPath: 'id' });
+          clips.createIndex('timestamp', 'timestamp');
+        }
+        // v4: 长时段距离曲线的降采样分桶，以分桶起点为键
+        if (!db.objectStoreNames.contains(TIMELINE_STORE)) {
+          db.createObjectStore(TIMELINE_STORE, { keyPath: 'start' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// 跨多个对象仓库的事务，run 中发起的请求 (含游标) 全部完成、事务提交后返回 run 的结果
+export const withTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => T
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const result = run(tx);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// 在单个事务中执行请求，事务提交后返回结果
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ONSET_CONFIG } from './dsp';
+import { Detector, DetectorConfig } from './detector';
+import { DEFAULT_FEATURE_CONFIG, FeatureExtractor, featureTag } from './features';
+
+const SAMPLE_RATE = 48000;
+const BINS = 2048;
+
+// 在若干频点上抬高能量的 dB 频谱
+const spectrum = (peaks: number[], db = -20) => {
+  const frame = new Float32Array(BINS).fill(-90);
+  for (const k of peaks) frame[k] = db;
+  return frame;
+};
+
+const configFor = (reference: Float32Array, adaptive: boolean): DetectorConfig => ({
+  enabled: true,
+  matchMode: 'frame',
+  features: DEFAULT_FEATURE_CONFIG,
+  onset: DEFAULT_ONSET_CONFIG,
+  adaptive: { enabled: adaptive, deviations: 3 },
+  templates: [{
+    id: 'a',
+    fingerprint: new FeatureExtractor(DEFAULT_FEATURE_CONFIG, SAMPLE_RATE).extract(reference),
+    sequence: null,
+    threshold: 0.2,
+    cooldownSeconds: 1,
+    featureVersion: featureTag(DEFAULT_FEATURE_CONFIG)
+  }]
+});
+
+describe('Detector', () => {
+  it.each([false, true])('起音窗口之外按固定间隔给出背景距离 (自适应: %s)', (adaptive) => {
+    const detector = new Detector(SAMPLE_RATE);
+    detector.configure(configFor(spectrum([100, 300]), adaptive));
+    const background = spectrum([500, 900], -60);
+    let sampled = 0;
+    for (let i = 0; i < 80; i++) {
+      const result = detector.process(background, i * 20);
+      expect(result.hit).toBeNull();
+      if (result.distances.a !== undefined) {
+        expect(result.distances.a).toBeGreaterThan(0);
+        sampled++;
+      }
+    }
+    expect(sampled).toBeGreaterThanOrEqual(9);
+    expect(sampled).toBeLessThanOrEqual(11);
+  });
+
+  it('起音窗口内逐帧比对并在距离低于阈值时命中', () => {
+    const reference = spectrum([100, 300]);
+    const detector = new Detector(SAMPLE_RATE);
+    detector.configure(configFor(reference, false));
+    const quiet = new Float32Array(BINS).fill(-90);
+    for (let i = 0; i < 10; i++) detector.process(quiet, i * 20);
+    const result = detector.process(reference, 200);
+    expect(result.onset.triggered).toBe(true);
+    expect(result.hit).toMatchObject({ templateId: 'a' });
+    expect(result.distances.a).toBeCloseTo(0);
+  });
+});
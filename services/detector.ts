@@ -0,0 +1,194 @@
+import { AdaptiveThresholdConfig, FeatureConfig, MatchMode, OnsetConfig, SoundTemplate } from '../types';
+import { OnsetDetector, OnsetState, spectrumLevel } from './dsp';
+import { FeatureExtractor, cosineDistance, featureTag } from './features';
+import { FrameRingBuffer, SEQUENCE_FRAMES, sequenceDistance } from './sequence';
+
+export type DetectorTemplate = Pick<SoundTemplate, 'id' | 'fingerprint' | 'sequence' | 'threshold' | 'cooldownSeconds' | 'featureVersion'>;
+
+export interface DetectorConfig {
+  enabled: boolean;
+  matchMode: MatchMode;
+  features: FeatureConfig;
+  onset: OnsetConfig;
+  adaptive: AdaptiveThresholdConfig;
+  templates: DetectorTemplate[];
+}
+
+export interface DetectorResult {
+  level: number;
+  distances: Record<string, number>; // 起音窗口内逐帧给出，窗口之外只在背景采样帧给出
+  thresholds: Record<string, number>; // 各模板当前生效的阈值
+  onset: OnsetState;
+  hit: { templateId: string; distance: number; threshold: number } | null;
+  // 起音窗口结束仍未触发、但距离接近阈值的候选事件，供用户标注漏检
+  candidate: { templateId: string; distance: number } | null;
+}
+
+// 起音后参与比对的帧数。单帧模式比对起音后的前几帧；
+// 序列模式等实时序列从起音帧开始填满后再比对，与参考序列的起点对齐
+const GATE_FRAMES = 3;
+
+// 距离不超过阈值这么多倍的未触发起音记为候选事件
+const NEAR_MISS_RATIO = 2;
+
+// 起音窗口之外每隔这么多帧比对一次背景距离，供实时曲线与自适应阈值使用；
+// 不逐帧比对，避免序列模式下每帧都对全部模板做 DTW
+const BACKGROUND_SAMPLE_INTERVAL = 8;
+// 背景统计的平滑系数 (按上述间隔采样，1024 帧移下时间常数约 4 秒) 与启用自适应阈值前的最少采样数
+const BACKGROUND_ADAPT_RATE = 0.04;
+const ADAPTIVE_WARMUP_SAMPLES = 13;
+// 自适应阈值的下限，避免阈值为 0 时按距离/阈值比较出现无穷大
+const MIN_ADAPTIVE_THRESHOLD = 0.01;
+
+// 非命中时段比对距离的指数滑动均值与方差
+class BackgroundStats {
+  mean = 1.0;
+  variance = 0;
+  count = 0;
+
+  push(distance: number) {
+    if (this.count === 0) {
+      this.mean = distance;
+    } else {
+      const diff = distance - this.mean;
+      this.mean += BACKGROUND_ADAPT_RATE * diff;
+      this.variance = (1 - BACKGROUND_ADAPT_RATE) * (this.variance + BACKGROUND_ADAPT_RATE * diff * diff);
+    }
+    this.count++;
+  }
+}
+
+/**
+ * 逐帧检测：跟踪起音、提取指纹、维护实时序列，仅在起音附近判定命中并处理冷却；
+ * 起音窗口之外按固定间隔比对背景距离，用于实时曲线与自适应阈值。
+ * 不依赖 DOM，既在 AudioWorklet 中运行，也用于不支持 AudioWorklet 时的主线程回退。
+ */
+export class Detector {
+  private config: DetectorConfig | null = null;
+  private extractor: FeatureExtractor;
+  private prevFrame: Float32Array | null = null;
+  private liveSequence = new FrameRingBuffer<number[]>(SEQUENCE_FRAMES);
+  private lastDetection: Record<string, number> = {};
+  private onsets = new OnsetDetector();
+  private sinceOnset = Infinity;
+  // 当前起音窗口内各模板的最小距离，以及是否已有模板低于阈值
+  private windowBest: Record<string, number> = {};
+  private windowMatched = false;
+  private background: Record<string, BackgroundStats> = {};
+  private backgroundTick = 0;
+
+  constructor(sampleRate: number) {
+    this.extractor = new FeatureExtractor(undefined, sampleRate);
+  }
+
+  get enabled() {
+    return !!this.config?.enabled;
+  }
+
+  configure(config: DetectorConfig) {
+    const featuresChanged = !this.config || this.extractor.version !== featureTag(config.features);
+    this.config = config;
+    this.extractor.setConfig(config.features);
+    this.onsets.config = config.onset;
+    if (featuresChanged || !config.enabled) {
+      this.prevFrame = null;
+      this.liveSequence.clear();
+      this.onsets.reset();
+      this.sinceOnset = Infinity;
+      this.background = {};
+    }
+  }
+
+  process(frame: Float32Array, now: number): DetectorResult {
+    const distances: Record<string, number> = {};
+    const thresholds: Record<string, number> = {};
+    const level = spectrumLevel(frame);
+    const config = this.config;
+    const onset = this.onsets.push(frame);
+    const idle = { level, distances, thresholds, onset, hit: null, candidate: null };
+    if (!config) return idle;
+
+    const fingerprint = this.extractor.extract(frame, this.prevFrame);
+    this.prevFrame = frame;
+    this.liveSequence.push(fingerprint);
+    if (onset.triggered) {
+      this.sinceOnset = 0;
+      this.windowBest = {};
+      this.windowMatched = false;
+    } else {
+      this.sinceOnset++;
+    }
+    const sequenceMode = config.matchMode === 'sequence';
+    const gateStart = sequenceMode ? SEQUENCE_FRAMES - 1 : 0;
+    const inGate = this.sinceOnset >= gateStart && this.sinceOnset < gateStart + GATE_FRAMES;
+    for (const template of config.templates) thresholds[template.id] = this.thresholdFor(template);
+    const sampleBackground = !inGate && ++this.backgroundTick % BACKGROUND_SAMPLE_INTERVAL === 0;
+    if (!inGate && !sampleBackground) return idle;
+
+    const liveFrames = sequenceMode && this.liveSequence.isFull ? this.liveSequence.toArray() : null;
+    let best: { template: DetectorTemplate; distance: number; threshold: number } | null = null;
+
+    // 逐个模板比对，同一帧只记为相对阈值最接近的一个模板；特征版本不同的指纹跳过
+    for (const template of config.templates) {
+      if (template.featureVersion !== this.extractor.version) continue;
+      let distance: number;
+      if (sequenceMode) {
+        if (!template.sequence || !liveFrames) continue;
+        distance = sequenceDistance(template.sequence, liveFrames);
+      } else {
+        if (!template.fingerprint) continue;
+        distance = cosineDistance(template.fingerprint, fingerprint);
+      }
+      distances[template.id] = distance;
+      if (!inGate) {
+        (this.background[template.id] ??= new BackgroundStats()).push(distance);
+        continue;
+      }
+
+      const threshold = thresholds[template.id];
+      this.windowBest[template.id] = Math.min(this.windowBest[template.id] ?? 1.0, distance);
+      if (distance <= threshold) this.windowMatched = true;
+      const cooledDown = now - (this.lastDetection[template.id] ?? -Infinity) > template.cooldownSeconds * 1000;
+      if (distance <= threshold && cooledDown
+        && (!best || distance / threshold < best.distance / best.threshold)) {
+        best = { template, distance, threshold };
+      }
+    }
+    if (!inGate) return idle;
+
+    if (best) {
+      this.lastDetection[best.template.id] = now;
+      return { ...idle, hit: { templateId: best.template.id, distance: best.distance, threshold: best.threshold } };
+    }
+    const windowClosed = this.sinceOnset === gateStart + GATE_FRAMES - 1;
+    return windowClosed && !this.windowMatched ? { ...idle, candidate: this.nearMiss(config.templates, thresholds) } : idle;
+  }
+
+  /**
+   * 当前生效的阈值。自适应模式下取背景距离均值减去若干倍标准差，
+   * 且不高于模板的固定阈值：背景安静时沿用固定阈值，背景噪声接近模板时自动收紧。
+   */
+  private thresholdFor(template: DetectorTemplate): number {
+    const adaptive = this.config?.adaptive;
+    const stats = this.background[template.id];
+    if (!adaptive?.enabled || !stats || stats.count < ADAPTIVE_WARMUP_SAMPLES) return template.threshold;
+    const backgroundLine = stats.mean - adaptive.deviations * Math.sqrt(stats.variance);
+    return Math.min(template.threshold, Math.max(MIN_ADAPTIVE_THRESHOLD, backgroundLine));
+  }
+
+  // 起音窗口内相对阈值最接近的模板，超出 NEAR_MISS_RATIO 倍阈值则视为无关声音
+  private nearMiss(templates: DetectorTemplate[], thresholds: Record<string, number>): DetectorResult['candidate'] {
+    let candidate: DetectorResult['candidate'] = null;
+    let bestRatio = NEAR_MISS_RATIO;
+    for (const template of templates) {
+      const distance = this.windowBest[template.id];
+      if (distance === undefined) continue;
+      const ratio = distance / thresholds[template.id];
+      if (ratio <= bestRatio) {
+        bestRatio = ratio;
+        candidate = { templateId: template.id, distance };
+      }
+    }
+    return candidate;
+  }
+}
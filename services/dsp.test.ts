@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ONSET_CONFIG, OnsetDetector, fftInPlace, findLoudestOnset, onsetRatio, spectralFlux, stft } from './dsp';
+
+const SAMPLE_RATE = 48000;
+const BINS = 512;
+
+// AnalyserNode 在数字静音时输出 -Infinity dB
+const silence = () => new Float32Array(BINS).fill(-Infinity);
+const flat = (db: number) => new Float32Array(BINS).fill(db);
+
+describe('fftInPlace', () => {
+  it('单位脉冲的频谱处处为 1', () => {
+    const re = new Float64Array(8);
+    const im = new Float64Array(8);
+    re[0] = 1;
+    fftInPlace(re, im);
+    expect(Array.from(re)).toEqual(new Array(8).fill(1));
+    expect(Array.from(im).every(x => Math.abs(x) < 1e-12)).toBe(true);
+  });
+});
+
+describe('stft', () => {
+  it('按帧移逐帧输出', () => {
+    const frames = stft(new Float32Array(4096 + 1024 * 3), { fftSize: 4096, smoothing: 0.3, hopSize: 1024 });
+    expect(frames).toHaveLength(4);
+    expect(frames[0]).toHaveLength(2048);
+  });
+
+  it('正弦波的峰值落在对应频点', () => {
+    const fftSize = 2048;
+    const freq = 1500;
+    const samples = Float32Array.from({ length: fftSize }, (_, i) => Math.sin((2 * Math.PI * freq * i) / SAMPLE_RATE));
+    const [db] = stft(samples, { fftSize, smoothing: 0, hopSize: fftSize });
+    const peak = db.indexOf(Math.max(...db));
+    expect(peak).toBe(Math.round((freq / SAMPLE_RATE) * fftSize));
+  });
+});
+
+describe('spectralFlux', () => {
+  it('只累计幅度上升的部分', () => {
+    expect(spectralFlux(null, flat(0))).toBe(0);
+    expect(spectralFlux(flat(-20), flat(0))).toBeCloseTo(BINS * 0.9);
+    expect(spectralFlux(flat(0), flat(-20))).toBe(0);
+  });
+});
+
+describe('findLoudestOnset', () => {
+  it('返回最强瞬态所在的帧', () => {
+    const frames = [flat(-80), flat(-80), flat(-79), flat(-20), flat(-20), flat(-80), flat(-80)];
+    expect(findLoudestOnset(frames)).toBe(3);
+  });
+
+  it('没有明显突出的瞬态时返回 -1', () => {
+    expect(findLoudestOnset([flat(-80), flat(-80), flat(-80), flat(-80)])).toBe(-1);
+    expect(findLoudestOnset([flat(-80), flat(-20)])).toBe(-1);
+  });
+});
+
+describe('OnsetDetector', () => {
+  it('灵敏度越高触发倍数越低', () => {
+    expect(onsetRatio(10)).toBe(1.5);
+    expect(onsetRatio(1)).toBe(6);
+  });
+
+  it('数字静音之后的咔哒声能触发起音', () => {
+    const detector = new OnsetDetector();
+    for (let i = 0; i < 20; i++) expect(detector.push(silence()).triggered).toBe(false);
+    const state = detector.push(flat(-20));
+    expect(state.triggered).toBe(true);
+    expect(state.noiseFloor).toBeCloseTo(DEFAULT_ONSET_CONFIG.minFloorDb);
+  });
+
+  it('持续超线只在上升沿触发一次，超线帧不抬高噪声底', () => {
+    const detector = new OnsetDetector();
+    detector.push(flat(-80));
+    detector.push(flat(-80));
+    expect(detector.push(flat(-20)).triggered).toBe(true);
+    let rising = -20;
+    for (let i = 0; i < 5; i++) {
+      rising += 3;
+      expect(detector.push(flat(rising)).triggered).toBe(false);
+    }
+    expect(detector.push(flat(rising)).noiseFloor).toBeCloseTo(DEFAULT_ONSET_CONFIG.minFloorDb);
+  });
+
+  it('第一帧通量只用来初始化噪声底', () => {
+    const detector = new OnsetDetector();
+    detector.push(flat(-80));
+    expect(detector.push(flat(-20)).triggered).toBe(false);
+  });
+
+  it('reset 后噪声底回到下限', () => {
+    const detector = new OnsetDetector({ ...DEFAULT_ONSET_CONFIG, minFloorDb: -50 });
+    detector.push(flat(-80));
+    for (let i = 0; i < 50; i++) detector.push(i % 2 ? flat(-30) : flat(-35));
+    expect(detector.push(flat(-30)).noiseFloor).toBeGreaterThan(-50);
+    detector.reset();
+    expect(detector.push(silence()).noiseFloor).toBeCloseTo(-50);
+  });
+});
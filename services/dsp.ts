@@ -0,0 +1,217 @@
+import { AnalysisConfig, OnsetConfig } from '../types';
+
+// 离线频谱分析工具，行为尽量与 AnalyserNode 保持一致
+
+// AnalyserNode 使用的 Blackman 窗 (alpha = 0.16)
+export const blackmanWindow = (size: number): Float32Array => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (2 * Math.PI * i) / size;
+    w[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  }
+  return w;
+};
+
+// 原地基 2 FFT，长度必须为 2 的幂
+export const fftInPlace = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = i + k;
+        const b = a + half;
+        const bRe = re[b] * curRe - im[b] * curIm;
+        const bIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - bRe;
+        im[b] = im[a] - bIm;
+        re[a] += bRe;
+        im[a] += bIm;
+        const next = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = next;
+      }
+    }
+  }
+};
+
+// 多声道混为单声道
+export const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  const out = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) out[i] += data[i] / buffer.numberOfChannels;
+  }
+  return out;
+};
+
+// 可选的 FFT 点数，不小于分析帧移
+export const FFT_SIZES = [1024, 2048, 4096, 8192];
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  fftSize: 4096,
+  smoothing: 0.3
+};
+
+export interface StftOptions {
+  fftSize: number;
+  smoothing: number;
+  hopSize: number;
+}
+
+/**
+ * 流式频谱分析器，输出与 getFloatFrequencyData 相同的 dB 频谱：
+ * Blackman 窗、幅度除以 fftSize、帧间按 smoothingTimeConstant 平滑。
+ */
+export class SpectrumAnalyzer {
+  private window: Float32Array;
+  private re: Float64Array;
+  private im: Float64Array;
+  private smoothed: Float64Array;
+
+  constructor(readonly fftSize: number, public smoothing: number) {
+    this.window = blackmanWindow(fftSize);
+    this.re = new Float64Array(fftSize);
+    this.im = new Float64Array(fftSize);
+    this.smoothed = new Float64Array(fftSize / 2);
+  }
+
+  // samples 为按时间顺序排列的 fftSize 个采样
+  analyze(samples: ArrayLike<number>, offset = 0): Float32Array {
+    const { fftSize, re, im, smoothed, smoothing } = this;
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = samples[offset + i] * this.window[i];
+      im[i] = 0;
+    }
+    fftInPlace(re, im);
+
+    const bins = fftSize / 2;
+    const db = new Float32Array(bins);
+    for (let k = 0; k < bins; k++) {
+      const mag = Math.sqrt(re[k] * re[k] + im[k] * im[k]) / fftSize;
+      smoothed[k] = smoothing * smoothed[k] + (1 - smoothing) * mag;
+      db[k] = 20 * Math.log10(smoothed[k]);
+    }
+    return db;
+  }
+}
+
+// 短时傅里叶变换：逐帧输出 dB 频谱
+export const stft = (samples: Float32Array, { fftSize, smoothing, hopSize }: StftOptions): Float32Array[] => {
+  const analyzer = new SpectrumAnalyzer(fftSize, smoothing);
+  const frames: Float32Array[] = [];
+  for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+    frames.push(analyzer.analyze(samples, start));
+  }
+  return frames;
+};
+
+// 与界面音量条一致的电平估计：各频点 (dB + 100) / 80 的均值
+export const spectrumLevel = (db: Float32Array): number => {
+  let sum = 0;
+  for (let k = 0; k < db.length; k++) sum += db[k] + 100;
+  return Math.max(0, Math.min(1, (sum / db.length) / 80));
+};
+
+// 频谱通量：相邻两帧线性幅度的正向增量之和
+export const spectralFlux = (prev: Float32Array | null, current: Float32Array): number => {
+  if (!prev) return 0;
+  let flux = 0;
+  for (let k = 0; k < current.length; k++) {
+    const diff = Math.pow(10, current[k] / 20) - Math.pow(10, prev[k] / 20);
+    if (diff > 0) flux += diff;
+  }
+  return flux;
+};
+
+export const DEFAULT_ONSET_CONFIG: OnsetConfig = {
+  sensitivity: 5,
+  minFloorDb: -60
+};
+
+// 噪声底跟踪速度：每帧向当前通量靠近的比例 (1024 帧移下时间常数约 1 秒)
+const FLOOR_ADAPT_RATE = 0.02;
+
+// 灵敏度 1-10 映射为通量相对噪声底的触发倍数 (10 → 1.5 倍, 1 → 6 倍)
+export const onsetRatio = (sensitivity: number) => 1 + (11 - sensitivity) * 0.5;
+
+const toDb = (linear: number) => 20 * Math.log10(Math.max(linear, 1e-10));
+const minFloorOf = (config: OnsetConfig) => Math.pow(10, config.minFloorDb / 20);
+
+export interface OnsetState {
+  flux: number; // 当前帧频谱通量 (dB)
+  noiseFloor: number; // 跟踪到的噪声底 (dB)，已按下限截断
+  triggered: boolean; // 本帧是否为起音
+}
+
+/**
+ * 实时起音检测：以指数滑动平均跟踪频谱通量的噪声底，通量超过噪声底一定倍数即判为起音。
+ * 超过触发线的帧不计入噪声底，避免咔哒声本身抬高背景估计；持续超线只在上升沿触发一次。
+ */
+export class OnsetDetector {
+  private prev: Float32Array | null = null;
+  // 噪声底从下限起步，数字静音时通量为 0 也不会让噪声底归零而屏蔽之后的起音
+  private floor: number;
+  private primed = false;
+  private above = false;
+
+  constructor(public config: OnsetConfig = DEFAULT_ONSET_CONFIG) {
+    this.floor = minFloorOf(config);
+  }
+
+  reset() {
+    this.prev = null;
+    this.floor = minFloorOf(this.config);
+    this.primed = false;
+    this.above = false;
+  }
+
+  push(frame: Float32Array): OnsetState {
+    const prev = this.prev;
+    this.prev = frame;
+    const minFloor = minFloorOf(this.config);
+    const floor = Math.max(this.floor, minFloor);
+    if (!prev) return { flux: toDb(0), noiseFloor: toDb(floor), triggered: false };
+
+    const flux = spectralFlux(prev, frame);
+    // 第一帧通量只用来初始化噪声底，不判定起音
+    const above = this.primed && flux > floor * onsetRatio(this.config.sensitivity);
+    const triggered = above && !this.above;
+    this.above = above;
+    if (!above) {
+      this.floor = this.primed ? floor + FLOOR_ADAPT_RATE * (flux - floor) : Math.max(flux, minFloor);
+      this.primed = true;
+    }
+    return { flux: toDb(flux), noiseFloor: toDb(floor), triggered };
+  }
+}
+
+// 在离线帧序列中寻找最强的瞬态，返回帧下标；若没有明显突出于背景的起音则返回 -1
+export const findLoudestOnset = (frames: Float32Array[], minRatio = 4): number => {
+  if (frames.length < 3) return -1;
+  const flux = frames.map((f, i) => spectralFlux(i > 0 ? frames[i - 1] : null, f));
+
+  let peak = 1;
+  for (let i = 2; i < flux.length; i++) {
+    if (flux[i] > flux[peak]) peak = i;
+  }
+
+  const sorted = flux.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (flux[peak] <= 0 || flux[peak] < median * minRatio) return -1;
+  return peak;
+};
@@ -0,0 +1,156 @@
+import { MatchMode } from '../types';
+import { AudioEngine } from './audioEngine';
+import { spectralFlux } from './dsp';
+import { FrameRingBuffer, SEQUENCE_FRAMES, averageSequences } from './sequence';
+
+export interface EnrollmentResult {
+  fingerprint: number[];
+  sequence: number[][];
+  samples: number;
+  spread: number; // 各样本到中心指纹的平均距离
+  maxSpread: number; // 离中心最远的样本距离
+  noiseDistance: number; // 背景噪声到中心指纹的距离 (10% 分位)
+  quality: number; // 0-1，越高表示样本越一致且与背景区分越明显
+  suggestedThreshold: number;
+}
+
+const FLUX_HISTORY = 120; // 用于估计背景通量的帧数
+const ONSET_RATIO = 4; // 通量超过背景中位数的倍数视为起音
+const ALIGN_FRAMES = 3; // 起音后在多少帧内寻找能量峰值 (需小于 SEQUENCE_FRAMES)
+const REFRACTORY_MS = 300;
+const BACKGROUND_EVERY = 10;
+const MAX_BACKGROUND = 200;
+const MIN_FLUX = 1e-6;
+
+const frameEnergy = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += Math.pow(10, frame[i] / 10);
+  return sum;
+};
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+/**
+ * 多次录入：逐帧接收实时频谱，检测每一次咔哒的起音，
+ * 取起音后能量最高的一帧作为对齐后的样本，并截取自起音开始的帧序列；
+ * 同时采集背景帧用于评估区分度。
+ */
+export class EnrollmentSession {
+  private prevFrame: Float32Array | null = null;
+  private fluxHistory: number[] = [];
+  private captures: number[][] = [];
+  private sequences: number[][][] = [];
+  private background: number[][] = [];
+  private backgroundSequences: number[][][] = [];
+  private recent = new FrameRingBuffer<number[]>(SEQUENCE_FRAMES);
+  private pending: { frames: Float32Array[]; prev: Float32Array | null } | null = null;
+  private lastOnsetAt = 0;
+  private frameCount = 0;
+
+  constructor(private engine: AudioEngine, readonly target: number, private mode: MatchMode = 'frame') {}
+
+  get captured() {
+    return this.captures.length;
+  }
+
+  get isComplete() {
+    return this.captures.length >= this.target;
+  }
+
+  // 返回本帧是否完成了一次样本捕获
+  push(frame: Float32Array, now: number): boolean {
+    const prev = this.prevFrame;
+    const flux = spectralFlux(prev, frame);
+    this.prevFrame = frame;
+    this.frameCount++;
+
+    // 起音后收集一段帧：单帧指纹取前几帧中能量最高的一帧，序列取整段
+    if (this.pending) {
+      this.pending.frames.push(frame);
+      if (this.pending.frames.length < SEQUENCE_FRAMES) return false;
+      const frames = [this.pending.prev, ...this.pending.frames];
+      let peak = 1;
+      for (let i = 2; i <= ALIGN_FRAMES; i++) {
+        if (frameEnergy(frames[i]!) > frameEnergy(frames[peak]!)) peak = i;
+      }
+      this.captures.push(this.engine.getFingerprint(frames[peak]!, frames[peak - 1]));
+      this.sequences.push(this.pending.frames.map((f, i) => this.engine.getFingerprint(f, frames[i])));
+      this.pending = null;
+      this.recent.clear();
+      return true;
+    }
+
+    // 背景通量设下限，避免完全静音时任何微小变化都被当作起音
+    const baseline = Math.max(MIN_FLUX, this.fluxHistory.length ? percentile(this.fluxHistory, 0.5) : Infinity);
+    const isOnset = this.fluxHistory.length >= 10
+      && flux > baseline * ONSET_RATIO
+      && now - this.lastOnsetAt > REFRACTORY_MS;
+
+    if (isOnset && !this.isComplete) {
+      this.lastOnsetAt = now;
+      this.pending = { frames: [frame], prev };
+      return false;
+    }
+
+    this.fluxHistory.push(flux);
+    if (this.fluxHistory.length > FLUX_HISTORY) this.fluxHistory.shift();
+
+    if (now - this.lastOnsetAt > REFRACTORY_MS) {
+      const fingerprint = this.engine.getFingerprint(frame, prev);
+      this.recent.push(fingerprint);
+      if (this.frameCount % BACKGROUND_EVERY === 0) {
+        this.background.push(fingerprint);
+        if (this.background.length > MAX_BACKGROUND) this.background.shift();
+        if (this.recent.isFull) {
+          this.backgroundSequences.push(this.recent.toArray());
+          if (this.backgroundSequences.length > MAX_BACKGROUND) this.backgroundSequences.shift();
+        }
+      }
+    }
+    return false;
+  }
+
+  finish(): EnrollmentResult {
+    if (this.captures.length === 0) {
+      throw new Error('未捕获到任何样本');
+    }
+
+    // 各样本均值后重新归一化，得到中心指纹
+    const bands = this.captures[0].length;
+    const mean = new Array(bands).fill(0);
+    this.captures.forEach(fp => fp.forEach((v, i) => { mean[i] += v / this.captures.length; }));
+    const magnitude = Math.sqrt(mean.reduce((acc, v) => acc + v * v, 0)) || 1;
+    const fingerprint = mean.map(v => v / magnitude);
+
+    const sequence = averageSequences(this.sequences);
+
+    // 离散度与背景距离按当前比对模式计算，建议阈值才与实时比对的距离一致
+    const spreads = this.mode === 'sequence'
+      ? this.sequences.map(seq => this.engine.compareSequence(sequence, seq))
+      : this.captures.map(fp => this.engine.compare(fingerprint, fp));
+    const noise = this.mode === 'sequence'
+      ? this.backgroundSequences.map(seq => this.engine.compareSequence(sequence, seq))
+      : this.background.map(fp => this.engine.compare(fingerprint, fp));
+    const spread = spreads.reduce((a, b) => a + b, 0) / spreads.length;
+    const maxSpread = Math.max(...spreads);
+    const noiseDistance = noise.length ? percentile(noise, 0.1) : 1.0;
+
+    const quality = noiseDistance > 0 ? Math.max(0, Math.min(1, 1 - spread / noiseDistance)) : 0;
+    const rawThreshold = noiseDistance > maxSpread ? (maxSpread + noiseDistance) / 2 : maxSpread * 1.1;
+    const suggestedThreshold = Math.max(0.05, Math.min(0.5, Math.round(rawThreshold * 100) / 100));
+
+    return {
+      fingerprint,
+      sequence,
+      samples: this.captures.length,
+      spread,
+      maxSpread,
+      noiseDistance,
+      quality,
+      suggestedThreshold
+    };
+  }
+}
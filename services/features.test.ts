@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { SpectrumAnalyzer } from './dsp';
+import {
+  DEFAULT_FEATURE_CONFIG,
+  FeatureExtractor,
+  LEGACY_FEATURE_VERSION,
+  buildMelFilterbank,
+  cosineDistance,
+  featureTag,
+  fingerprintBandProfile,
+  parseFeatureTag
+} from './features';
+
+const SAMPLE_RATE = 48000;
+const FFT_SIZE = 4096;
+
+// 指定频率正弦波 (可叠加多个) 的 dB 频谱
+const toneSpectrum = (...freqs: number[]) => {
+  const samples = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    for (const f of freqs) samples[i] += Math.sin((2 * Math.PI * f * i) / SAMPLE_RATE) / freqs.length;
+  }
+  return new SpectrumAnalyzer(FFT_SIZE, 0).analyze(samples);
+};
+
+const magnitude = (v: number[]) => Math.sqrt(v.reduce((acc, x) => acc + x * x, 0));
+
+describe('featureTag', () => {
+  it('与 parseFeatureTag 互为逆运算', () => {
+    const config = { ...DEFAULT_FEATURE_CONFIG, minFreq: 300, deltas: true };
+    expect(featureTag(config)).toBe('mfcc1/300-8000/32/13/d');
+    expect(parseFeatureTag(featureTag(config))).toEqual(config);
+    expect(parseFeatureTag(featureTag(DEFAULT_FEATURE_CONFIG))).toEqual(DEFAULT_FEATURE_CONFIG);
+  });
+
+  it('旧版线性指纹与无法识别的标记返回 null', () => {
+    expect(parseFeatureTag(LEGACY_FEATURE_VERSION)).toBeNull();
+    expect(parseFeatureTag('mfcc2/200-8000/32/13')).toBeNull();
+  });
+});
+
+describe('buildMelFilterbank', () => {
+  it('生成指定数量的非负滤波器，频点不越界且中心频率递增', () => {
+    const bins = FFT_SIZE / 2;
+    const filters = buildMelFilterbank(bins, SAMPLE_RATE, DEFAULT_FEATURE_CONFIG);
+    expect(filters).toHaveLength(DEFAULT_FEATURE_CONFIG.melBands);
+    let lastStart = -1;
+    for (const { start, weights } of filters) {
+      expect(start).toBeGreaterThanOrEqual(lastStart);
+      expect(start + weights.length).toBeLessThanOrEqual(bins);
+      expect(weights.every(w => w >= 0)).toBe(true);
+      expect(weights.some(w => w > 0)).toBe(true);
+      lastStart = start;
+    }
+  });
+
+  it('频点很少时每个滤波器仍至少覆盖一个频点', () => {
+    const filters = buildMelFilterbank(64, SAMPLE_RATE, { ...DEFAULT_FEATURE_CONFIG, melBands: 40 });
+    expect(filters.every(f => f.weights.some(w => w > 0))).toBe(true);
+  });
+});
+
+describe('FeatureExtractor', () => {
+  it('输出单位长度的 MFCC 向量，维度与系数个数一致', () => {
+    const extractor = new FeatureExtractor(DEFAULT_FEATURE_CONFIG, SAMPLE_RATE);
+    const fingerprint = extractor.extract(toneSpectrum(1000));
+    expect(fingerprint).toHaveLength(DEFAULT_FEATURE_CONFIG.coefficients);
+    expect(magnitude(fingerprint)).toBeCloseTo(1);
+    expect(extractor.version).toBe(featureTag(DEFAULT_FEATURE_CONFIG));
+  });
+
+  it('开启差分特征时维度加倍，未传上一帧时差分为 0', () => {
+    const config = { ...DEFAULT_FEATURE_CONFIG, deltas: true };
+    const fingerprint = new FeatureExtractor(config, SAMPLE_RATE).extract(toneSpectrum(1000));
+    expect(fingerprint).toHaveLength(config.coefficients * 2);
+    expect(fingerprint.slice(config.coefficients).every(x => x === 0)).toBe(true);
+  });
+
+  it('相同频谱距离为 0，不同频谱的距离大于相近频谱', () => {
+    const extractor = new FeatureExtractor(DEFAULT_FEATURE_CONFIG, SAMPLE_RATE);
+    const reference = extractor.extract(toneSpectrum(1000, 3000));
+    expect(cosineDistance(reference, extractor.extract(toneSpectrum(1000, 3000)))).toBeCloseTo(0);
+    const near = cosineDistance(reference, extractor.extract(toneSpectrum(1050, 3100)));
+    const far = cosineDistance(reference, extractor.extract(toneSpectrum(400, 6000)));
+    expect(far).toBeGreaterThan(near);
+  });
+
+  it('切换参数后版本标记随之变化', () => {
+    const extractor = new FeatureExtractor(DEFAULT_FEATURE_CONFIG, SAMPLE_RATE);
+    const before = extractor.version;
+    extractor.setConfig({ ...DEFAULT_FEATURE_CONFIG, melBands: 40 });
+    expect(extractor.version).not.toBe(before);
+    expect(extractor.extract(toneSpectrum(1000))).toHaveLength(DEFAULT_FEATURE_CONFIG.coefficients);
+  });
+});
+
+describe('cosineDistance', () => {
+  it('相同为 0、正交为 1、维度不同视为完全不同', () => {
+    expect(cosineDistance([1, 0], [1, 0])).toBe(0);
+    expect(cosineDistance([1, 0], [0, 1])).toBe(1);
+    expect(cosineDistance([1, 0], [-1, 0])).toBe(1);
+    expect(cosineDistance([1, 0], [1, 0, 0])).toBe(1);
+  });
+});
+
+describe('fingerprintBandProfile', () => {
+  it('旧版线性指纹按频段均分到奈奎斯特频率并归一化', () => {
+    const profile = fingerprintBandProfile([0, 2, 4, 1], LEGACY_FEATURE_VERSION, SAMPLE_RATE);
+    expect(profile.map(b => b.level)).toEqual([0, 0.5, 1, 0.25]);
+    expect(profile[0].freq).toBe(3000);
+  });
+
+  it('MFCC 指纹还原为 Mel 频带包络，无法识别的版本返回空', () => {
+    const extractor = new FeatureExtractor(DEFAULT_FEATURE_CONFIG, SAMPLE_RATE);
+    const profile = fingerprintBandProfile(extractor.extract(toneSpectrum(1000)), extractor.version, SAMPLE_RATE);
+    expect(profile).toHaveLength(DEFAULT_FEATURE_CONFIG.melBands);
+    expect(Math.min(...profile.map(b => b.level))).toBe(0);
+    expect(Math.max(...profile.map(b => b.level))).toBe(1);
+    expect(fingerprintBandProfile([1, 2], 'unknown', SAMPLE_RATE)).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+import { FeatureConfig } from '../types';
+
+// 旧版 64 段线性频带指纹的版本标记，与 MFCC 指纹互不比较
+export const LEGACY_FEATURE_VERSION = 'linear64';
+
+export const DEFAULT_FEATURE_CONFIG: FeatureConfig = {
+  minFreq: 200,
+  maxFreq: 8000,
+  melBands: 32,
+  coefficients: 13,
+  deltas: false
+};
+
+// 指纹版本标记：参数不同的 MFCC 向量维度或含义不同，不能直接比较
+export const featureTag = (config: FeatureConfig) =>
+  `mfcc1/${config.minFreq}-${config.maxFreq}/${config.melBands}/${config.coefficients}${config.deltas ? '/d' : ''}`;
+
+// 从版本标记还原特征参数，旧版线性指纹或无法识别时返回 null
+export const parseFeatureTag = (tag: string): FeatureConfig | null => {
+  const match = /^mfcc1\/(\d+)-(\d+)\/(\d+)\/(\d+)(\/d)?$/.exec(tag);
+  if (!match) return null;
+  return {
+    minFreq: Number(match[1]),
+    maxFreq: Number(match[2]),
+    melBands: Number(match[3]),
+    coefficients: Number(match[4]),
+    deltas: !!match[5]
+  };
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// 三角形 Mel 滤波器组，每个滤波器为 [起始频点, 权重数组]
+export const buildMelFilterbank = (
+  bins: number,
+  sampleRate: number,
+  { minFreq, maxFreq, melBands }: FeatureConfig
+): { start: number; weights: Float32Array }[] => {
+  const nyquist = sampleRate / 2;
+  const low = hzToMel(Math.max(0, minFreq));
+  const high = hzToMel(Math.min(nyquist, maxFreq));
+  const binHz = nyquist / bins;
+  const edges: number[] = [];
+  for (let i = 0; i < melBands + 2; i++) {
+    edges.push(melToHz(low + ((high - low) * i) / (melBands + 1)) / binHz);
+  }
+
+  const filters = [];
+  for (let m = 0; m < melBands; m++) {
+    const [left, center, right] = [edges[m], edges[m + 1], edges[m + 2]];
+    const start = Math.max(0, Math.floor(left));
+    const end = Math.min(bins - 1, Math.ceil(right));
+    const weights = new Float32Array(Math.max(0, end - start + 1));
+    for (let k = start; k <= end; k++) {
+      const w = k <= center
+        ? (k - left) / Math.max(1e-9, center - left)
+        : (right - k) / Math.max(1e-9, right - center);
+      weights[k - start] = Math.max(0, w);
+    }
+    // 极窄的滤波器可能落在两个频点之间，至少取最近的一个频点
+    if (weights.every(w => w === 0) && weights.length > 0) {
+      weights[Math.min(weights.length - 1, Math.round(center) - start)] = 1;
+    }
+    filters.push({ start, weights });
+  }
+  return filters;
+};
+
+// 对数 Mel 能量做 DCT-II，去掉反映整体响度的 c0
+export const computeMfcc = (
+  db: Float32Array,
+  filterbank: { start: number; weights: Float32Array }[],
+  coefficients: number
+): number[] => {
+  const logEnergies = filterbank.map(({ start, weights }) => {
+    let energy = 0;
+    for (let i = 0; i < weights.length; i++) {
+      energy += weights[i] * Math.pow(10, db[start + i] / 10);
+    }
+    return Math.log(energy + 1e-12);
+  });
+
+  const m = logEnergies.length;
+  const out: number[] = [];
+  for (let k = 1; k <= coefficients; k++) {
+    let sum = 0;
+    for (let i = 0; i < m; i++) {
+      sum += logEnergies[i] * Math.cos((Math.PI * k * (i + 0.5)) / m);
+    }
+    out.push(sum);
+  }
+  return out;
+};
+
+export interface BandLevel {
+  freq: number; // 频段中心频率 (Hz)
+  level: number; // 归一化到 0-1 的相对能量
+}
+
+/**
+ * 参考指纹的频带轮廓，用于在频谱图上对照。MFCC 指纹做逆 DCT 还原对数 Mel 包络
+ * (c0 已去掉，只反映各频段的相对高低)；旧版线性指纹直接取 64 段能量。
+ */
+export const fingerprintBandProfile = (fingerprint: number[], featureVersion: string, sampleRate: number): BandLevel[] => {
+  const nyquist = sampleRate / 2;
+  let bands: BandLevel[];
+  if (featureVersion === LEGACY_FEATURE_VERSION) {
+    bands = fingerprint.map((level, i) => ({ freq: ((i + 0.5) / fingerprint.length) * nyquist, level }));
+  } else {
+    const config = parseFeatureTag(featureVersion);
+    if (!config) return [];
+    const m = config.melBands;
+    const coefficients = fingerprint.slice(0, config.coefficients);
+    const low = hzToMel(Math.max(0, config.minFreq));
+    const high = hzToMel(Math.min(nyquist, config.maxFreq));
+    bands = Array.from({ length: m }, (_, i) => {
+      let level = 0;
+      coefficients.forEach((c, k) => {
+        level += c * Math.cos((Math.PI * (k + 1) * (i + 0.5)) / m);
+      });
+      return { freq: melToHz(low + ((high - low) * (i + 1)) / (m + 1)), level };
+    });
+  }
+  const min = Math.min(...bands.map(b => b.level));
+  const max = Math.max(...bands.map(b => b.level));
+  return bands.map(b => ({ freq: b.freq, level: max > min ? (b.level - min) / (max - min) : 0.5 }));
+};
+
+export const normalizeVector = (v: number[]) => {
+  const magnitude = Math.sqrt(v.reduce((acc, x) => acc + x * x, 0)) || 1;
+  return v.map(x => x / magnitude);
+};
+
+// 余弦相似度转换为距离 (0为完全相同, 1为完全不同)
+export const cosineDistance = (f1: number[], f2: number[]): number => {
+  if (f1.length !== f2.length) return 1.0;
+  let dotProduct = 0;
+  for (let i = 0; i < f1.length; i++) {
+    dotProduct += f1[i] * f2[i];
+  }
+  const similarity = Math.max(0, Math.min(1, dotProduct));
+  return 1 - similarity;
+};
+
+/**
+ * 按特征参数提取 MFCC 指纹，缓存与频点数、采样率对应的滤波器组。
+ * 主线程的 AudioEngine 与 AudioWorklet 中的检测器共用同一实现。
+ */
+export class FeatureExtractor {
+  private filterbank: { key: string; filters: ReturnType<typeof buildMelFilterbank> } | null = null;
+
+  constructor(private config: FeatureConfig = DEFAULT_FEATURE_CONFIG, public sampleRate = 48000) {}
+
+  get version(): string {
+    return featureTag(this.config);
+  }
+
+  setConfig(config: FeatureConfig) {
+    this.config = config;
+  }
+
+  // 传入上一帧时附加一阶差分特征
+  extract(data: Float32Array, prev: Float32Array | null = null): number[] {
+    const filters = this.getFilterbank(data.length);
+    const coefficients = computeMfcc(data, filters, this.config.coefficients);
+    if (!this.config.deltas) {
+      return normalizeVector(coefficients);
+    }
+    const previous = prev ? computeMfcc(prev, filters, this.config.coefficients) : coefficients;
+    return normalizeVector([...coefficients, ...coefficients.map((c, i) => c - previous[i])]);
+  }
+
+  private getFilterbank(bins: number) {
+    const key = `${bins}/${this.sampleRate}/${this.version}`;
+    if (!this.filterbank || this.filterbank.key !== key) {
+      this.filterbank = { key, filters: buildMelFilterbank(bins, this.sampleRate, this.config) };
+    }
+    return this.filterbank.filters;
+  }
+}
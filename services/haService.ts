@@ -1,6 +1,10 @@
+import { AudioOutage, DetectionRecord } from '../types';
 
-export const notifyHomeAssistant = async (webhookUrl: string, data: any) => {
-  if (!webhookUrl) return;
+// 投递结果：sent 成功；rejected 服务端拒绝了这条数据 (4xx)；unreachable 网络错误或服务端故障 (5xx)
+export type WebhookResult = 'sent' | 'rejected' | 'unreachable';
+
+export const postToHomeAssistant = async (webhookUrl: string, data: any): Promise<WebhookResult> => {
+  if (!webhookUrl) return 'unreachable';
   
   try {
     const response = await fetch(webhookUrl, {
@@ -10,15 +14,47 @@ export const notifyHomeAssistant = async (webhookUrl: string, data: any) => {
       },
       body: JSON.stringify({
         event: 'gas_meter_click',
-        ...data,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        ...data
       }),
     });
     
     if (!response.ok) {
       console.error('HA Webhook failed:', response.statusText);
+      return response.status >= 500 ? 'unreachable' : 'rejected';
     }
+    return 'sent';
   } catch (error) {
     console.error('Error notifying Home Assistant:', error);
+    return 'unreachable';
   }
 };
+
+// 返回是否投递成功，失败时由调用方决定是否重试
+export const notifyHomeAssistant = async (webhookUrl: string, data: any): Promise<boolean> =>
+  (await postToHomeAssistant(webhookUrl, data)) === 'sent';
+
+// 检测记录的推送内容，时间戳取检测发生的时刻而非发送时刻
+export const buildDetectionPayload = (record: DetectionRecord) => ({
+  id: record.id,
+  timestamp: new Date(record.timestamp).toISOString(),
+  distance: record.distance,
+  threshold: record.threshold,
+  template_id: record.templateId,
+  template_label: record.templateLabel
+});
+
+// 音频中断事件在发送队列中的 ID：开始与恢复各一条
+export const outageEventId = (outage: AudioOutage) => `outage-${outage.id}-${outage.end === null ? 'start' : 'end'}`;
+
+// 音频中断事件：开始时推送一次，恢复时附带结束时刻与持续时长再推送一次
+export const buildOutagePayload = (outage: AudioOutage) => ({
+  event: 'gas_meter_audio_outage',
+  id: outage.id,
+  state: outage.end === null ? 'started' : 'recovered',
+  reason: outage.reason,
+  start: new Date(outage.start).toISOString(),
+  end: outage.end === null ? null : new Date(outage.end).toISOString(),
+  duration_seconds: outage.end === null ? null : Math.round((outage.end - outage.start) / 1000),
+  restarts: outage.restarts
+});
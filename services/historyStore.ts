@@ -0,0 +1,149 @@
+import { DetectionRecord } from '../types';
+import { CLIP_STORE, HISTORY_STORE, HOURLY_STORE, withStore, withTransaction } from './db';
+import { normalizeRecord } from './settings';
+import { V4_HISTORY_KEY, V8_HISTORY_KEY, isRecordArray, loadJson, loadV4History, loadV8History } from './storage';
+
+// 检测历史存储：原始事件按保留期清理，按小时汇总的次数永久保留供统计使用
+
+const LEGACY_HISTORY_KEY = 'audio_pulse_history';
+export const HISTORY_PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HourlyCount {
+  hour: number; // 该小时起点的时间戳
+  templateId: string;
+  count: number;
+}
+
+export const startOfHour = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setMinutes(0, 0, 0);
+  return d.getTime();
+};
+
+// 先在内存中按小时合并，再与已有汇总相加；同一事务内对同一键的读写不会交错
+const mergeHourly = (store: IDBObjectStore, records: DetectionRecord[]) => {
+  const counts = new Map<string, HourlyCount>();
+  for (const r of records) {
+    const hour = startOfHour(r.timestamp);
+    const key = `${hour}|${r.templateId}`;
+    const entry = counts.get(key) ?? { hour, templateId: r.templateId, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  counts.forEach(entry => {
+    const request = store.get([entry.hour, entry.templateId]);
+    request.onsuccess = () => {
+      const existing: HourlyCount | undefined = request.result;
+      store.put({ ...entry, count: entry.count + (existing?.count ?? 0) });
+    };
+  });
+};
+
+export const addDetection = (record: DetectionRecord) =>
+  withTransaction([HISTORY_STORE, HOURLY_STORE], 'readwrite', tx => {
+    tx.objectStore(HISTORY_STORE).put(record);
+    mergeHourly(tx.objectStore(HOURLY_STORE), [record]);
+  });
+
+export const updateDetection = (id: string, patch: Partial<DetectionRecord>) =>
+  withTransaction([HISTORY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(HISTORY_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...patch });
+    };
+  });
+
+/**
+ * 按时间倒序分页读取检测记录，before 为上一页最后一条的时间戳。
+ * 指定模板时走 [templateId, timestamp] 复合索引。
+ */
+export const loadDetections = ({ before = Infinity, templateId = null as string | null, limit = HISTORY_PAGE_SIZE } = {}) =>
+  withTransaction([HISTORY_STORE], 'readonly', tx => {
+    const store = tx.objectStore(HISTORY_STORE);
+    const records: DetectionRecord[] = [];
+    const request = templateId
+      ? store.index('template_time').openCursor(IDBKeyRange.bound([templateId, -Infinity], [templateId, before], false, true), 'prev')
+      : store.index('timestamp').openCursor(IDBKeyRange.upperBound(before, true), 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || records.length >= limit) return;
+      records.push(cursor.value);
+      cursor.continue();
+    };
+    return records;
+  });
+
+// 时间范围内的全部记录，按时间先后排列，用于导出
+export const loadDetectionsBetween = (from = -Infinity, to = Infinity) =>
+  withStore<DetectionRecord[]>(HISTORY_STORE, 'readonly', store =>
+    store.index('timestamp').getAll(IDBKeyRange.bound(from, to))
+  );
+
+export const countDetections = () => withStore<number>(HISTORY_STORE, 'readonly', store => store.count());
+
+// 已标注的记录，label 索引不包含未标注的记录
+export const loadLabeledDetections = () =>
+  withStore<DetectionRecord[]>(HISTORY_STORE, 'readonly', store => store.index('label').getAll());
+
+// 只清空原始事件及其音频片段，小时汇总保留
+export const clearDetections = () =>
+  withTransaction([HISTORY_STORE, CLIP_STORE], 'readwrite', tx => {
+    tx.objectStore(HISTORY_STORE).clear();
+    tx.objectStore(CLIP_STORE).clear();
+  });
+
+// 删除超过保留天数的原始事件及其片段，返回删除条数；retentionDays 为 0 表示永久保留
+export const pruneDetections = (retentionDays: number) =>
+  withTransaction([HISTORY_STORE, CLIP_STORE], 'readwrite', tx => {
+    const removed = { count: 0 };
+    if (retentionDays <= 0) return removed;
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const clips = tx.objectStore(CLIP_STORE);
+    const request = tx.objectStore(HISTORY_STORE).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (cursor.value.hasClip) clips.delete(cursor.primaryKey);
+      cursor.delete();
+      removed.count++;
+      cursor.continue();
+    };
+    return removed;
+  }).then(removed => removed.count);
+
+export const loadHourlyCounts = (since: number, until = Infinity) =>
+  withStore<HourlyCount[]>(HOURLY_STORE, 'readonly', store =>
+    store.index('hour').getAll(IDBKeyRange.bound(since, until, false, true))
+  );
+
+// 指定时间之后各模板的触发次数
+export const countSince = async (since: number): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+  for (const entry of await loadHourlyCounts(startOfHour(since))) {
+    counts[entry.templateId] = (counts[entry.templateId] || 0) + entry.count;
+  }
+  return counts;
+};
+
+/**
+ * 首次启动时把 localStorage 中的旧历史 (含 v4 / v8 旧页面的记录) 迁入 IndexedDB，
+ * 并补建小时汇总。无法解析的旧数据直接丢弃，不阻塞启动。
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const keys = [LEGACY_HISTORY_KEY, V4_HISTORY_KEY, V8_HISTORY_KEY];
+  if (keys.every(key => localStorage.getItem(key) === null)) return 0;
+  const records = [
+    ...loadJson<DetectionRecord[]>(LEGACY_HISTORY_KEY, [], isRecordArray).map(normalizeRecord),
+    ...loadV4History(),
+    ...loadV8History()
+  ];
+  await withTransaction([HISTORY_STORE, HOURLY_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(HISTORY_STORE);
+    records.forEach(r => store.put(r));
+    mergeHourly(tx.objectStore(HOURLY_STORE), records);
+  });
+  keys.forEach(key => localStorage.removeItem(key));
+  return records.length;
+};
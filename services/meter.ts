@@ -0,0 +1,28 @@
+import { MeterCorrection } from '../types';
+
+// 表计读数 = 初始读数 + 累计咔哒用气量 + 历次校正偏移
+export const computeMeterReading = (
+  initialReading: number,
+  totalClicks: number,
+  volumePerClick: number,
+  corrections: MeterCorrection[]
+): number => {
+  const offset = corrections.reduce((acc, c) => acc + c.offset, 0);
+  return initialReading + totalClicks * volumePerClick + offset;
+};
+
+// 以表盘实际读数校正，记录为一次偏移事件而不改动检测历史
+export const createCorrection = (actualReading: number, computedReading: number): MeterCorrection => ({
+  id: Math.random().toString(36).substr(2, 9),
+  timestamp: Date.now(),
+  reading: actualReading,
+  offset: actualReading - computedReading
+});
+
+export const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const formatVolume = (value: number) => value.toFixed(3);
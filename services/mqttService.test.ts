@@ -0,0 +1,23 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MqttPublisher, MqttStatus, isMqttBrokerUrl } from './mqttService';
+
+describe('isMqttBrokerUrl', () => {
+  it('只接受完整的 ws:// 与 wss:// 地址', () => {
+    expect(isMqttBrokerUrl('ws://homeassistant.local:1884/mqtt')).toBe(true);
+    expect(isMqttBrokerUrl('wss://broker.example.com/mqtt')).toBe(true);
+    for (const url of ['', 'w', 'ws', 'ws:', 'ws://', 'mqtt://broker:1883', 'http://broker/mqtt']) {
+      expect(isMqttBrokerUrl(url)).toBe(false);
+    }
+  });
+});
+
+describe('MqttPublisher', () => {
+  it('地址不完整时标记为连接错误而不是抛出', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const statuses: MqttStatus[] = [];
+    const publisher = new MqttPublisher(status => statuses.push(status));
+    expect(() => publisher.configure({ brokerUrl: 'ws', username: '', password: '', topicPrefix: '' })).not.toThrow();
+    expect(statuses).toEqual(['error']);
+    vi.restoreAllMocks();
+  });
+});
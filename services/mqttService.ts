@@ -0,0 +1,172 @@
+import mqtt, { MqttClient } from 'mqtt';
+import { DetectionRecord } from '../types';
+
+export type MqttStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export interface MqttConfig {
+  brokerUrl: string;
+  username: string;
+  password: string;
+  topicPrefix: string;
+}
+
+const DISCOVERY_PREFIX = 'homeassistant';
+
+const sanitizeId = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+// 浏览器中只能通过 WebSocket 连接 Broker，其余协议或不完整的地址一律拒绝
+export const isMqttBrokerUrl = (url: string) => {
+  try {
+    const { protocol, host } = new URL(url);
+    return (protocol === 'ws:' || protocol === 'wss:') && !!host;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 通过 WebSocket 连接 MQTT Broker，发布检测事件与累计用气量。
+ * 连接建立后发布 Home Assistant 自动发现配置，并用遗嘱消息维护在线状态。
+ */
+export class MqttPublisher {
+  private client: MqttClient | null = null;
+  private config: MqttConfig | null = null;
+  private online = false;
+  private lastTotal: number | null = null;
+
+  constructor(private onStatusChange: (status: MqttStatus) => void) {}
+
+  configure(config: MqttConfig) {
+    const same = this.config
+      && this.config.brokerUrl === config.brokerUrl
+      && this.config.username === config.username
+      && this.config.password === config.password
+      && this.config.topicPrefix === config.topicPrefix;
+    if (same && this.client) return;
+
+    this.disconnect();
+    this.config = config;
+    if (!config.brokerUrl) return;
+    if (!isMqttBrokerUrl(config.brokerUrl)) {
+      console.warn('Invalid MQTT broker URL:', config.brokerUrl);
+      this.onStatusChange('error');
+      return;
+    }
+
+    this.onStatusChange('connecting');
+    let client: MqttClient;
+    try {
+      client = mqtt.connect(config.brokerUrl, {
+        username: config.username || undefined,
+        password: config.password || undefined,
+        clientId: `audio_pulse_${Math.random().toString(36).substr(2, 8)}`,
+        reconnectPeriod: 5000,
+        will: {
+          topic: this.availabilityTopic,
+          payload: 'offline',
+          qos: 1,
+          retain: true
+        }
+      });
+    } catch (err) {
+      console.error('MQTT connect failed:', err);
+      this.onStatusChange('error');
+      return;
+    }
+
+    client.on('connect', () => {
+      this.onStatusChange('connected');
+      this.publishDiscovery();
+      this.publishAvailability();
+      if (this.lastTotal !== null) this.publishTotal(this.lastTotal);
+    });
+    client.on('reconnect', () => this.onStatusChange('connecting'));
+    client.on('offline', () => this.onStatusChange('disconnected'));
+    client.on('error', (err) => {
+      console.error('MQTT error:', err);
+      this.onStatusChange('error');
+    });
+    this.client = client;
+  }
+
+  setAvailability(online: boolean) {
+    this.online = online;
+    this.publishAvailability();
+  }
+
+  // 非燃气表模板的检测 volume 为 0
+  publishDetection(record: DetectionRecord, volume: number) {
+    this.publish(`${this.baseTopic}/detection`, JSON.stringify({
+      id: record.id,
+      timestamp: new Date(record.timestamp).toISOString(),
+      distance: record.distance,
+      threshold: record.threshold,
+      template_id: record.templateId,
+      template_label: record.templateLabel,
+      volume
+    }), false);
+  }
+
+  publishTotal(total: number) {
+    this.lastTotal = total;
+    this.publish(this.stateTopic, total.toFixed(3), true);
+  }
+
+  disconnect() {
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      // 主动断开时先标记离线，遗嘱消息只在异常断开时生效
+      if (client.connected) {
+        client.publish(this.availabilityTopic, 'offline', { qos: 1, retain: true }, () => client.end());
+      } else {
+        client.end(true);
+      }
+      this.onStatusChange('disconnected');
+    }
+  }
+
+  private get baseTopic() {
+    return (this.config?.topicPrefix || 'audio_pulse').replace(/\/+$/, '');
+  }
+
+  private get availabilityTopic() {
+    return `${this.baseTopic}/availability`;
+  }
+
+  private get stateTopic() {
+    return `${this.baseTopic}/gas_total`;
+  }
+
+  private publishAvailability() {
+    this.publish(this.availabilityTopic, this.online ? 'online' : 'offline', true);
+  }
+
+  private publishDiscovery() {
+    const nodeId = sanitizeId(this.baseTopic);
+    this.publish(`${DISCOVERY_PREFIX}/sensor/${nodeId}/gas_total/config`, JSON.stringify({
+      name: '燃气累计用量',
+      unique_id: `${nodeId}_gas_total`,
+      state_topic: this.stateTopic,
+      availability_topic: this.availabilityTopic,
+      payload_available: 'online',
+      payload_not_available: 'offline',
+      device_class: 'gas',
+      state_class: 'total_increasing',
+      unit_of_measurement: 'm³',
+      device: {
+        identifiers: [nodeId],
+        name: '声音统计器',
+        model: 'AudioPulse AI',
+        manufacturer: 'AudioPulse'
+      }
+    }), true);
+  }
+
+  private publish(topic: string, payload: string, retain: boolean) {
+    if (!this.client) return;
+    this.client.publish(topic, payload, { qos: 1, retain }, (err) => {
+      if (err) console.error('MQTT publish failed:', topic, err);
+    });
+  }
+}
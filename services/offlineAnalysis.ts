@@ -0,0 +1,82 @@
+// 离线批量分析：结果结构、真值文件解析与准确率统计
+
+export interface OfflineHit {
+  time: number; // 相对录音开头的秒数
+  templateId: string;
+  distance: number;
+}
+
+export interface OfflineAnalysis {
+  duration: number; // 录音时长 (秒)
+  elapsedMs: number; // 分析耗时
+  bucketSeconds: number; // 图表每个点覆盖的时长
+  buckets: Record<string, number>[]; // 每个时间段内各模板的最小距离
+  thresholds: Record<string, number>[]; // 每个时间段内各模板生效阈值的最小值
+  hits: OfflineHit[];
+}
+
+export interface DetectionScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+// 真值与命中的默认配对容差 (秒)，需覆盖序列模式在起音后约 0.25 秒才出结果的延迟
+export const DEFAULT_MATCH_TOLERANCE = 0.5;
+
+// 解析 "12.5"、"01:02.3"、"1:02:03" 形式的时间点
+const parseTimestamp = (value: string): number | null => {
+  const parts = value.split(':').map(Number);
+  if (parts.length > 3 || parts.some(p => !isFinite(p))) return null;
+  return parts.reduce((acc, p) => acc * 60 + p, 0);
+};
+
+// 真值文件：每行一个咔哒时间点 (行首字段)，忽略空行、# 注释与无法解析的表头
+export const parseGroundTruth = (text: string): number[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.split('#')[0].trim().split(/[,;\s]+/)[0])
+    .filter(Boolean)
+    .map(parseTimestamp)
+    .filter((t): t is number => t !== null && t >= 0)
+    .sort((a, b) => a - b);
+
+// 命中与真值按时间顺序贪心配对，容差内的一对记为正确检测
+export const scoreDetections = (hits: number[], truth: number[], tolerance = DEFAULT_MATCH_TOLERANCE): DetectionScore => {
+  const sortedHits = [...hits].sort((a, b) => a - b);
+  let i = 0;
+  let j = 0;
+  let truePositives = 0;
+  while (i < sortedHits.length && j < truth.length) {
+    const diff = sortedHits[i] - truth[j];
+    if (Math.abs(diff) <= tolerance) {
+      truePositives++;
+      i++;
+      j++;
+    } else if (diff < 0) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  const falsePositives = sortedHits.length - truePositives;
+  const falseNegatives = truth.length - truePositives;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: sortedHits.length ? truePositives / sortedHits.length : 0,
+    recall: truth.length ? truePositives / truth.length : 0
+  };
+};
+
+// 录音内偏移显示为 mm:ss.s 或 h:mm:ss
+export const formatOffset = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}:${String(m).padStart(2, '0')}:${String(Math.floor(s)).padStart(2, '0')}`;
+  return `${String(m).padStart(2, '0')}:${s.toFixed(1).padStart(4, '0')}`;
+};
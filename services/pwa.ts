@@ -0,0 +1,37 @@
+// Service Worker 注册与更新：新版本安装完成后由用户确认再切换，监听不会被自动刷新打断
+
+// 长时间常驻的监听页面定期检查是否有新版本
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * 注册 sw.js (仅构建产物中存在)。新版本进入等待状态时调用 onUpdateReady，
+ * 传入的 apply 会让新版本接管并刷新页面。
+ */
+export const registerServiceWorker = async (onUpdateReady: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  let applying = false;
+  const prompt = (worker: ServiceWorker) => onUpdateReady(() => {
+    applying = true;
+    worker.postMessage('SKIP_WAITING');
+  });
+
+  // 首次安装时 clients.claim 也会触发 controllerchange，只在用户确认更新后刷新
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (applying) window.location.reload();
+  });
+
+  try {
+    const registration = await navigator.serviceWorker.register('sw.js');
+    if (registration.waiting && navigator.serviceWorker.controller) prompt(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) prompt(worker);
+      });
+    });
+    setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL_MS);
+  } catch (err) {
+    console.warn('Service worker registration failed', err);
+  }
+};
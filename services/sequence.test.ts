@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { FrameRingBuffer, averageSequences, dtwDistance, sequenceDistance } from './sequence';
+
+const absCost = (x: number, y: number) => Math.abs(x - y);
+
+// 单位向量序列，按角度表示每一帧
+const unitSequence = (angles: number[]) => angles.map(a => [Math.cos(a), Math.sin(a)]);
+
+describe('FrameRingBuffer', () => {
+  it('写满后覆盖最旧的帧，按时间先后输出', () => {
+    const buffer = new FrameRingBuffer<number>(3);
+    buffer.push(1);
+    buffer.push(2);
+    expect(buffer.isFull).toBe(false);
+    expect(buffer.toArray()).toEqual([1, 2]);
+    buffer.push(3);
+    buffer.push(4);
+    expect(buffer.isFull).toBe(true);
+    expect(buffer.length).toBe(3);
+    expect(buffer.toArray()).toEqual([2, 3, 4]);
+    buffer.clear();
+    expect(buffer.toArray()).toEqual([]);
+  });
+});
+
+describe('dtwDistance', () => {
+  it('相同序列距离为 0，空序列视为完全不同', () => {
+    expect(dtwDistance([1, 2, 3], [1, 2, 3], absCost)).toBe(0);
+    expect(dtwDistance([], [1], absCost)).toBe(1);
+  });
+
+  it('时间伸缩后的序列仍能对齐', () => {
+    const stretched = dtwDistance([0, 1, 2, 3, 0], [0, 1, 1, 2, 2, 3, 3, 0], absCost);
+    const shifted = dtwDistance([0, 1, 2, 3, 0], [1, 2, 3, 0, 0], absCost);
+    expect(stretched).toBe(0);
+    expect(shifted).toBeGreaterThan(0);
+  });
+
+  it('常数代价的结果等于局部代价，量纲与单帧距离一致', () => {
+    expect(dtwDistance([0, 0, 0, 0], [1, 1, 1, 1], absCost)).toBeCloseTo(1);
+    expect(dtwDistance([0, 0, 0], [0.5, 0.5, 0.5, 0.5, 0.5], absCost)).toBeCloseTo(0.5);
+  });
+
+  it('约束带宽限制可用的对齐路径', () => {
+    const a = [1, 2, 3, 4, 4, 4, 4, 4];
+    const b = [1, 1, 1, 1, 1, 2, 3, 4];
+    expect(dtwDistance(a, b, absCost, 7)).toBe(0);
+    expect(dtwDistance(a, b, absCost, 1)).toBeGreaterThan(0);
+  });
+});
+
+describe('sequenceDistance', () => {
+  it('以余弦距离为局部代价，维度不同视为完全不同', () => {
+    const reference = unitSequence([0, 0.5, 1, 1.5]);
+    expect(sequenceDistance(reference, reference)).toBeCloseTo(0);
+    expect(sequenceDistance(reference, unitSequence([0, 0, 0.5, 1, 1.5]))).toBeCloseTo(0);
+    expect(sequenceDistance(reference, unitSequence([1.5, 1, 0.5, 0]))).toBeGreaterThan(0.1);
+    expect(sequenceDistance(reference, [[1, 0, 0]])).toBe(1);
+    expect(sequenceDistance([], reference)).toBe(1);
+  });
+});
+
+describe('averageSequences', () => {
+  it('逐帧求均值并归一化，长度取最短序列', () => {
+    const averaged = averageSequences([unitSequence([0, 0]), [[0, 1]]]);
+    expect(averaged).toHaveLength(1);
+    expect(averaged[0][0]).toBeCloseTo(Math.SQRT1_2);
+    expect(averaged[0][1]).toBeCloseTo(Math.SQRT1_2);
+  });
+});
@@ -0,0 +1,99 @@
+import { cosineDistance } from './features';
+
+// 时间序列匹配：参考与实时信号都以指纹帧序列表示
+
+// 序列长度：按 1024 采样帧移在 48kHz 下约 256ms，足以覆盖一次机械咔哒
+export const SEQUENCE_FRAMES = 12;
+
+// 固定容量的环形缓冲区，保存最近的实时指纹帧
+export class FrameRingBuffer<T> {
+  private items: (T | undefined)[];
+  private head = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  get length() {
+    return this.count;
+  }
+
+  get isFull() {
+    return this.count === this.capacity;
+  }
+
+  push(item: T) {
+    this.items[this.head] = item;
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.capacity, this.count + 1);
+  }
+
+  // 按时间先后返回缓冲内容
+  toArray(): T[] {
+    const out: T[] = [];
+    const start = (this.head - this.count + this.capacity) % this.capacity;
+    for (let i = 0; i < this.count; i++) {
+      out.push(this.items[(start + i) % this.capacity] as T);
+    }
+    return out;
+  }
+
+  clear() {
+    this.head = 0;
+    this.count = 0;
+  }
+}
+
+/**
+ * 动态时间规整距离。对角步长权重为 2，结果除以两序列长度之和，
+ * 得到对齐路径上的平均帧间距离，量纲与单帧距离一致 (0-1)。
+ * band 为 Sakoe-Chiba 约束带宽，限制两序列之间的最大时间伸缩。
+ */
+export const dtwDistance = <T>(
+  a: T[],
+  b: T[],
+  cost: (x: T, y: T) => number,
+  band = Math.ceil(Math.max(a.length, b.length) / 3)
+): number => {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return 1.0;
+  const width = Math.max(band, Math.abs(n - m));
+
+  let prev = new Float64Array(m + 1).fill(Infinity);
+  let curr = new Float64Array(m + 1).fill(Infinity);
+  prev[0] = 0;
+
+  for (let i = 1; i <= n; i++) {
+    curr.fill(Infinity);
+    const from = Math.max(1, i - width);
+    const to = Math.min(m, i + width);
+    for (let j = from; j <= to; j++) {
+      const c = cost(a[i - 1], b[j - 1]);
+      curr[j] = Math.min(prev[j] + c, curr[j - 1] + c, prev[j - 1] + 2 * c);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[m] / (n + m);
+};
+
+// 参考序列与实时序列做 DTW，局部代价沿用单帧余弦距离
+export const sequenceDistance = (reference: number[][], live: number[][]): number => {
+  if (!reference.length || !live.length || reference[0].length !== live[0].length) return 1.0;
+  return dtwDistance(reference, live, cosineDistance);
+};
+
+// 按帧求均值并逐帧归一化，用于多次录入的序列平均 (各序列已按起音对齐)
+export const averageSequences = (sequences: number[][][]): number[][] => {
+  const length = Math.min(...sequences.map(s => s.length));
+  const out: number[][] = [];
+  for (let f = 0; f < length; f++) {
+    const dims = sequences[0][f].length;
+    const mean = new Array(dims).fill(0);
+    sequences.forEach(s => s[f].forEach((v, i) => { mean[i] += v / sequences.length; }));
+    const magnitude = Math.sqrt(mean.reduce((acc, v) => acc + v * v, 0)) || 1;
+    out.push(mean.map(v => v / magnitude));
+  }
+  return out;
+};
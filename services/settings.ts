@@ -0,0 +1,62 @@
+import { AnalysisConfig, AppSettings, DetectionRecord, SoundTemplate } from '../types';
+import { DEFAULT_ANALYSIS_CONFIG, DEFAULT_ONSET_CONFIG } from './dsp';
+import { DEFAULT_FEATURE_CONFIG, featureTag } from './features';
+
+// 旧版单一样本迁移后使用的模板 ID
+export const LEGACY_TEMPLATE_ID = 'legacy';
+export const LEGACY_TEMPLATE_LABEL = '燃气表咔哒';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  haWebhookUrl: '',
+  matchMode: 'frame',
+  templates: [],
+  activeTemplateId: null,
+  meterTemplateId: null,
+  analysis: DEFAULT_ANALYSIS_CONFIG,
+  features: DEFAULT_FEATURE_CONFIG,
+  onset: DEFAULT_ONSET_CONFIG,
+  adaptive: { enabled: false, deviations: 3 },
+  mqttBrokerUrl: '',
+  mqttUsername: '',
+  mqttPassword: '',
+  mqttTopicPrefix: 'audio_pulse',
+  volumePerClick: 0.01,
+  initialMeterReading: 0,
+  historyRetentionDays: 90,
+  clips: { enabled: false, preSeconds: 1, postSeconds: 1, maxStorageMb: 50 },
+  input: { deviceId: '', gainDb: 0, bandPass: false, lowCutHz: 300, highCutHz: 6000 }
+};
+
+export const createTemplate = (label: string, overrides: Partial<SoundTemplate> = {}): SoundTemplate => ({
+  id: Math.random().toString(36).substr(2, 9),
+  label,
+  fingerprint: null,
+  sequence: null,
+  featureVersion: featureTag(DEFAULT_FEATURE_CONFIG),
+  threshold: 0.20,
+  cooldownSeconds: 1.5,
+  ...overrides
+});
+
+// 为当前版本的配置补齐默认值；旧版结构的转换见 storage.ts 中的迁移步骤
+export const normalizeSettings = (saved: any): AppSettings => {
+  const settings: AppSettings = { ...DEFAULT_SETTINGS, ...saved };
+  settings.analysis = { ...DEFAULT_ANALYSIS_CONFIG, ...saved.analysis };
+  settings.features = { ...DEFAULT_FEATURE_CONFIG, ...saved.features };
+  settings.onset = { ...DEFAULT_ONSET_CONFIG, ...saved.onset };
+  settings.adaptive = { ...DEFAULT_SETTINGS.adaptive, ...saved.adaptive };
+  settings.clips = { ...DEFAULT_SETTINGS.clips, ...saved.clips };
+  settings.input = { ...DEFAULT_SETTINGS.input, ...saved.input };
+  return settings;
+};
+
+// 模板录入时的频谱参数是否与当前设置一致，未记录参数的旧模板按默认参数录入
+export const analysisMatches = (template: SoundTemplate, config: AnalysisConfig) => {
+  const used = template.analysis ?? DEFAULT_ANALYSIS_CONFIG;
+  return used.fftSize === config.fftSize && used.smoothing === config.smoothing;
+};
+
+// 旧版检测记录没有模板信息，归入迁移出来的模板
+export const normalizeRecord = (record: DetectionRecord): DetectionRecord => (
+  record.templateId ? record : { ...record, templateId: LEGACY_TEMPLATE_ID, templateLabel: LEGACY_TEMPLATE_LABEL }
+);
@@ -0,0 +1,50 @@
+// 频谱图绘制：dB 频谱映射为颜色，逐列写入画布像素
+
+// 颜色映射的 dB 范围，与 getFloatFrequencyData 的默认范围一致
+export const SPECTROGRAM_MIN_DB = -100;
+export const SPECTROGRAM_MAX_DB = -30;
+
+// 深蓝 → 蓝 → 青 → 黄 → 白 的分段线性色带
+const COLOR_STOPS: [number, number, number][] = [
+  [2, 6, 23],
+  [30, 64, 175],
+  [6, 182, 212],
+  [250, 204, 21],
+  [255, 255, 255]
+];
+
+export const dbToColor = (db: number, minDb = SPECTROGRAM_MIN_DB, maxDb = SPECTROGRAM_MAX_DB): [number, number, number] => {
+  const t = Math.max(0, Math.min(1, (db - minDb) / (maxDb - minDb))) * (COLOR_STOPS.length - 1);
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(t));
+  const f = t - i;
+  const [a, b] = [COLOR_STOPS[i], COLOR_STOPS[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+/**
+ * 把一帧频谱写入图像的第 x 列，纵轴为 minFreq–maxFreq 的线性频率，低频在下。
+ * 每个像素行取所覆盖频点中的最大值，避免窄带的咔哒声在缩放时被抹掉。
+ */
+export const drawSpectrumColumn = (
+  image: ImageData,
+  x: number,
+  db: Float32Array,
+  binHz: number,
+  minFreq: number,
+  maxFreq: number
+) => {
+  const { width, height, data } = image;
+  const rowHz = (maxFreq - minFreq) / height;
+  for (let y = 0; y < height; y++) {
+    const low = Math.max(0, Math.floor((minFreq + (height - 1 - y) * rowHz) / binHz));
+    const high = Math.min(db.length - 1, Math.max(low, Math.ceil((minFreq + (height - y) * rowHz) / binHz) - 1));
+    let peak = -Infinity;
+    for (let k = low; k <= high; k++) peak = Math.max(peak, db[k]);
+    const [r, g, b] = dbToColor(peak);
+    const offset = (y * width + x) * 4;
+    data[offset] = r;
+    data[offset + 1] = g;
+    data[offset + 2] = b;
+    data[offset + 3] = 255;
+  }
+};
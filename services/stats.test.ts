@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyCount } from './historyStore';
+import { PERIOD_BUCKETS, addPeriods, aggregate, bucketStart, peakHours, summarize, weekHourMatrix, windowStart } from './stats';
+
+// 统计按本地时间分桶，测试数据也用本地时间构造
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('bucketStart', () => {
+  it('对齐到小时、天、周一与月初', () => {
+    const t = at(2024, 5, 16, 14, 35); // 周四
+    expect(bucketStart(t, 'hour')).toBe(at(2024, 5, 16, 14));
+    expect(bucketStart(t, 'day')).toBe(at(2024, 5, 16));
+    expect(bucketStart(t, 'week')).toBe(at(2024, 5, 13));
+    expect(bucketStart(t, 'month')).toBe(at(2024, 5, 1));
+  });
+
+  it('周日归入前一个周一开始的周', () => {
+    expect(bucketStart(at(2024, 5, 19, 23), 'week')).toBe(at(2024, 5, 13));
+  });
+});
+
+describe('addPeriods', () => {
+  it('按日历推移，跨年与大小月时对齐到桶起点', () => {
+    expect(addPeriods(at(2024, 1, 1), 'month', -1)).toBe(at(2023, 12, 1));
+    expect(addPeriods(at(2024, 1, 31), 'day', 1)).toBe(at(2024, 2, 1));
+    expect(addPeriods(at(2024, 5, 13), 'week', 2)).toBe(at(2024, 5, 27));
+  });
+
+  it('统计窗口包含当前未结束的桶', () => {
+    const now = at(2024, 5, 16, 14, 35);
+    expect(windowStart('day', now)).toBe(at(2024, 5, 16 - (PERIOD_BUCKETS.day - 1)));
+    expect(windowStart('month', now)).toBe(at(2023, 6, 1));
+  });
+});
+
+describe('aggregate', () => {
+  const now = at(2024, 5, 16, 14, 35);
+  const counts: HourlyCount[] = [
+    { hour: at(2024, 5, 16, 9), templateId: 'a', count: 2 },
+    { hour: at(2024, 5, 16, 13), templateId: 'a', count: 3 },
+    { hour: at(2024, 5, 16, 13), templateId: 'b', count: 7 },
+    { hour: at(2024, 5, 15, 13), templateId: 'a', count: 1 }, // 上一个 24 小时窗口
+    { hour: at(2024, 5, 10, 13), templateId: 'a', count: 9 } // 两个窗口之外
+  ];
+
+  it('按粒度汇总指定模板，并记录上一周期对应位置', () => {
+    const buckets = aggregate(counts, 'a', 'hour', now);
+    expect(buckets).toHaveLength(24);
+    expect(buckets[buckets.length - 1].start).toBe(at(2024, 5, 16, 14));
+    const last = (hour: number) => buckets.find(b => b.start === at(2024, 5, 16, hour))!;
+    expect(last(9).current).toBe(2);
+    expect(last(13)).toMatchObject({ current: 3, previous: 1, label: '13:00' });
+    expect(summarize(buckets)).toEqual({ total: 5, previousTotal: 1, change: 4 });
+  });
+
+  it('上一周期为 0 时不计算变化比例', () => {
+    const buckets = aggregate(counts, 'b', 'day', now);
+    expect(buckets[buckets.length - 1]).toMatchObject({ current: 7, label: '5/16' });
+    expect(summarize(buckets)).toEqual({ total: 7, previousTotal: 0, change: null });
+  });
+});
+
+describe('weekHourMatrix', () => {
+  it('按星期与小时累计，并找出高峰时段', () => {
+    const counts: HourlyCount[] = [
+      { hour: at(2024, 5, 13, 7), templateId: 'a', count: 4 }, // 周一
+      { hour: at(2024, 5, 19, 7), templateId: 'a', count: 1 }, // 周日
+      { hour: at(2024, 5, 14, 19), templateId: 'a', count: 3 },
+      { hour: at(2024, 5, 14, 19), templateId: 'b', count: 10 },
+      { hour: at(2024, 4, 1, 8), templateId: 'a', count: 10 } // 早于起点
+    ];
+    const matrix = weekHourMatrix(counts, 'a', at(2024, 5, 1));
+    expect(matrix[0][7]).toBe(4);
+    expect(matrix[6][7]).toBe(1);
+    expect(matrix[1][19]).toBe(3);
+    expect(peakHours(matrix)).toEqual([{ hour: 7, count: 5 }, { hour: 19, count: 3 }]);
+    expect(peakHours(matrix, 1)).toEqual([{ hour: 7, count: 5 }]);
+  });
+});
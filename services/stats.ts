@@ -0,0 +1,114 @@
+import { HourlyCount } from './historyStore';
+
+// 用气统计：把小时汇总按小时/天/周/月重新分桶，并计算时段分布
+
+export type StatsPeriod = 'hour' | 'day' | 'week' | 'month';
+
+// 每种粒度显示的桶数
+export const PERIOD_BUCKETS: Record<StatsPeriod, number> = {
+  hour: 24,
+  day: 30,
+  week: 12,
+  month: 12
+};
+
+// 时段热力图与高峰时段统计的回溯天数
+export const HEATMAP_DAYS = 28;
+
+export interface StatsBucket {
+  start: number;
+  label: string;
+  current: number;
+  previous: number; // 上一周期对应位置的次数
+}
+
+export interface PeriodSummary {
+  total: number;
+  previousTotal: number;
+  change: number | null; // 相对上一周期的变化比例，上一周期为 0 时为 null
+}
+
+// 所在桶的起点；周从周一开始
+export const bucketStart = (timestamp: number, period: StatsPeriod): number => {
+  const d = new Date(timestamp);
+  if (period === 'hour') {
+    d.setMinutes(0, 0, 0);
+    return d.getTime();
+  }
+  d.setHours(0, 0, 0, 0);
+  if (period === 'week') d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  if (period === 'month') d.setDate(1);
+  return d.getTime();
+};
+
+// 按日历推移，跨夏令时与大小月时仍对齐到桶起点
+export const addPeriods = (start: number, period: StatsPeriod, n: number): number => {
+  const d = new Date(start);
+  if (period === 'hour') d.setHours(d.getHours() + n);
+  if (period === 'day') d.setDate(d.getDate() + n);
+  if (period === 'week') d.setDate(d.getDate() + n * 7);
+  if (period === 'month') d.setMonth(d.getMonth() + n);
+  return d.getTime();
+};
+
+const formatBucket = (start: number, period: StatsPeriod) => {
+  const d = new Date(start);
+  if (period === 'hour') return `${String(d.getHours()).padStart(2, '0')}:00`;
+  if (period === 'month') return `${d.getMonth() + 1}月`;
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+};
+
+// 当前统计窗口的起点 (含当前未结束的桶)
+export const windowStart = (period: StatsPeriod, now = Date.now()) =>
+  addPeriods(bucketStart(now, period), period, -(PERIOD_BUCKETS[period] - 1));
+
+/**
+ * 按粒度汇总指定模板的次数，同时统计紧邻的上一个同长度窗口，便于同比。
+ * counts 需覆盖上一窗口的起点至今。
+ */
+export const aggregate = (counts: HourlyCount[], templateId: string, period: StatsPeriod, now = Date.now()): StatsBucket[] => {
+  const length = PERIOD_BUCKETS[period];
+  const start = windowStart(period, now);
+  const previousStart = addPeriods(start, period, -length);
+  const buckets: StatsBucket[] = [];
+  const index = new Map<number, { bucket: StatsBucket; previous: boolean }>();
+  for (let i = 0; i < length; i++) {
+    const bucket = { start: addPeriods(start, period, i), label: '', current: 0, previous: 0 };
+    bucket.label = formatBucket(bucket.start, period);
+    buckets.push(bucket);
+    index.set(bucket.start, { bucket, previous: false });
+    index.set(addPeriods(previousStart, period, i), { bucket, previous: true });
+  }
+  for (const entry of counts) {
+    if (entry.templateId !== templateId) continue;
+    const slot = index.get(bucketStart(entry.hour, period));
+    if (!slot) continue;
+    if (slot.previous) slot.bucket.previous += entry.count;
+    else slot.bucket.current += entry.count;
+  }
+  return buckets;
+};
+
+export const summarize = (buckets: StatsBucket[]): PeriodSummary => {
+  const total = buckets.reduce((acc, b) => acc + b.current, 0);
+  const previousTotal = buckets.reduce((acc, b) => acc + b.previous, 0);
+  return { total, previousTotal, change: previousTotal > 0 ? (total - previousTotal) / previousTotal : null };
+};
+
+// 星期 × 小时的次数矩阵，行为周一到周日
+export const weekHourMatrix = (counts: HourlyCount[], templateId: string, since: number): number[][] => {
+  const matrix = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  for (const entry of counts) {
+    if (entry.templateId !== templateId || entry.hour < since) continue;
+    const d = new Date(entry.hour);
+    matrix[(d.getDay() + 6) % 7][d.getHours()] += entry.count;
+  }
+  return matrix;
+};
+
+// 按一天中的小时合计，返回次数最多的几个小时
+export const peakHours = (matrix: number[][], top = 3): { hour: number; count: number }[] =>
+  Array.from({ length: 24 }, (_, hour) => ({ hour, count: matrix.reduce((acc, row) => acc + row[hour], 0) }))
+    .filter(h => h.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, top);
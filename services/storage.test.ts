@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, LEGACY_TEMPLATE_ID } from './settings';
+import { LEGACY_FEATURE_VERSION, featureTag, DEFAULT_FEATURE_CONFIG } from './features';
+import { SETTINGS_KEY, SETTINGS_SCHEMA_VERSION, loadSettings, loadV4History, loadV8History, migrateSettings } from './storage';
+
+// 测试在 Node 中运行，用内存实现代替浏览器的 localStorage
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.has(key) ? this.items.get(key)! : null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+const CORRUPT_KEY = 'audio_pulse_settings_corrupt';
+const V4_CONFIG_KEY = 'audio_pulse_config_v4';
+const V8_CONFIG_KEY = 'audio_pulse_config_v8';
+
+const currentTemplate = {
+  id: 'tpl1',
+  label: '燃气表',
+  fingerprint: [0.6, 0.8],
+  sequence: null,
+  featureVersion: featureTag(DEFAULT_FEATURE_CONFIG),
+  threshold: 0.18,
+  cooldownSeconds: 2
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('loadSettings', () => {
+  it('没有任何配置时返回默认配置', () => {
+    expect(loadSettings()).toBe(DEFAULT_SETTINGS);
+  });
+
+  it('v4 配置 (版本 0) 的相似度阈值换算为距离并迁移为旧版模板', () => {
+    localStorage.setItem(V4_CONFIG_KEY, JSON.stringify({ fingerprint: [1, 0], threshold: 0.85, cooldown: 3 }));
+    const settings = loadSettings();
+    expect(settings.templates).toHaveLength(1);
+    const [template] = settings.templates;
+    expect(template.id).toBe(LEGACY_TEMPLATE_ID);
+    expect(template.threshold).toBeCloseTo(0.15);
+    expect(template.cooldownSeconds).toBe(3);
+    expect(template.fingerprint).toEqual([1, 0]);
+    expect(template.featureVersion).toBe(LEGACY_FEATURE_VERSION);
+    expect(settings.activeTemplateId).toBe(LEGACY_TEMPLATE_ID);
+    expect(settings.meterTemplateId).toBe(LEGACY_TEMPLATE_ID);
+  });
+
+  it('v4 相似度阈值过高时距离阈值不低于 0.01', () => {
+    localStorage.setItem(V4_CONFIG_KEY, JSON.stringify({ fingerprint: null, threshold: 1 }));
+    expect(loadSettings().templates[0].threshold).toBe(0.01);
+  });
+
+  it('v8 配置只迁移冷却时间与 Webhook 地址，丢弃时域指纹与含义相反的阈值', () => {
+    localStorage.setItem(V8_CONFIG_KEY, JSON.stringify({ fingerprint: [0, 1], threshold: 0.12, cooldown: 1, webhookUrl: 'http://ha.local/api/webhook/x' }));
+    const settings = loadSettings();
+    expect(settings.haWebhookUrl).toBe('http://ha.local/api/webhook/x');
+    expect(settings.templates).toHaveLength(1);
+    expect(settings.templates[0]).toMatchObject({ id: LEGACY_TEMPLATE_ID, fingerprint: null, threshold: 0.2, cooldownSeconds: 1 });
+    expect(settings.activeTemplateId).toBe(LEGACY_TEMPLATE_ID);
+  });
+
+  it('新格式配置优先于 v8 / v4 配置', () => {
+    localStorage.setItem(V4_CONFIG_KEY, JSON.stringify({ fingerprint: [1, 0], threshold: 0.85 }));
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: 2, settings: { templates: [currentTemplate], activeTemplateId: 'tpl1' } }));
+    expect(loadSettings().templates.map(t => t.id)).toEqual(['tpl1']);
+  });
+
+  it('无版本号的单一参考样本配置 (版本 1) 迁移为模板库', () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ referenceFingerprint: [0.5, 0.5], threshold: 0.3, cooldownSeconds: 2, haWebhookUrl: 'http://ha' }));
+    const settings = loadSettings();
+    expect(settings.haWebhookUrl).toBe('http://ha');
+    expect(settings.templates[0]).toMatchObject({ id: LEGACY_TEMPLATE_ID, fingerprint: [0.5, 0.5], threshold: 0.3, cooldownSeconds: 2 });
+    expect(settings).not.toHaveProperty('referenceFingerprint');
+  });
+
+  it('无版本号但已是模板库的配置补齐序列与特征版本', () => {
+    const { sequence, featureVersion, ...legacy } = currentTemplate;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ templates: [legacy], activeTemplateId: 'tpl1' }));
+    const [template] = loadSettings().templates;
+    expect(template.sequence).toBeNull();
+    expect(template.featureVersion).toBe(LEGACY_FEATURE_VERSION);
+  });
+
+  it('当前版本 (版本 2) 的配置原样读取并补齐缺省字段', () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+      version: SETTINGS_SCHEMA_VERSION,
+      settings: { templates: [currentTemplate], activeTemplateId: 'tpl1', analysis: { fftSize: 2048 } }
+    }));
+    const settings = loadSettings();
+    expect(settings.templates).toEqual([currentTemplate]);
+    expect(settings.analysis).toEqual({ ...DEFAULT_SETTINGS.analysis, fftSize: 2048 });
+    expect(settings.input).toEqual(DEFAULT_SETTINGS.input);
+    expect(localStorage.getItem(CORRUPT_KEY)).toBeNull();
+  });
+
+  it('无法解析的配置回退到默认值并另存原始内容', () => {
+    localStorage.setItem(SETTINGS_KEY, '{not json');
+    expect(loadSettings()).toBe(DEFAULT_SETTINGS);
+    expect(localStorage.getItem(CORRUPT_KEY)).toBe('{not json');
+  });
+
+  it('结构校验失败的配置回退到默认值并另存原始内容', () => {
+    const raw = JSON.stringify({ version: 2, settings: { templates: [{ ...currentTemplate, threshold: 5 }] } });
+    localStorage.setItem(SETTINGS_KEY, raw);
+    expect(loadSettings()).toBe(DEFAULT_SETTINGS);
+    expect(localStorage.getItem(CORRUPT_KEY)).toBe(raw);
+  });
+
+  it('损坏的 v4 配置同样另存原始内容', () => {
+    localStorage.setItem(V4_CONFIG_KEY, 'null');
+    expect(loadSettings()).toBe(DEFAULT_SETTINGS);
+    expect(localStorage.getItem(CORRUPT_KEY)).toBe('null');
+  });
+});
+
+describe('migrateSettings', () => {
+  it('拒绝来自更新版本的配置', () => {
+    expect(() => migrateSettings({ templates: [] }, SETTINGS_SCHEMA_VERSION + 1)).toThrow('请先升级');
+  });
+
+  it('拒绝无效的版本号', () => {
+    expect(() => migrateSettings({ templates: [] }, -1)).toThrow('版本号无效');
+    expect(() => migrateSettings({ templates: [] }, 1.5)).toThrow('版本号无效');
+  });
+
+  it('拒绝重复的模板 ID 与无效的 FFT 点数', () => {
+    expect(() => migrateSettings({ templates: [currentTemplate, currentTemplate] }, 2)).toThrow('模板 ID 重复');
+    expect(() => migrateSettings({ templates: [], analysis: { fftSize: 1000, smoothing: 0.3 } }, 2)).toThrow('FFT 点数无效');
+  });
+});
+
+describe('旧版检测历史', () => {
+  it('v4 记录按距离 = 1 - 相似度换算，跳过无法识别的条目', () => {
+    localStorage.setItem(V4_CONFIG_KEY, JSON.stringify({ threshold: 0.9 }));
+    localStorage.setItem('audio_pulse_history_v4', JSON.stringify([{ id: 'a', time: 1000, confidence: 0.95 }, { id: 'b' }]));
+    const records = loadV4History();
+    expect(records).toHaveLength(1);
+    expect(records[0].distance).toBeCloseTo(0.05);
+    expect(records[0].threshold).toBeCloseTo(0.1);
+    expect(records[0].templateId).toBe(LEGACY_TEMPLATE_ID);
+  });
+
+  it('v8 记录直接沿用距离，阈值取 v8 配置', () => {
+    localStorage.setItem(V8_CONFIG_KEY, JSON.stringify({ threshold: 0.2 }));
+    localStorage.setItem('audio_pulse_history_v8', JSON.stringify([{ id: 'a', time: 1000, distance: 0.1 }, null]));
+    expect(loadV8History()).toEqual([
+      { id: 'a', timestamp: 1000, distance: 0.1, threshold: 0.2, templateId: LEGACY_TEMPLATE_ID, templateLabel: expect.any(String) }
+    ]);
+  });
+});
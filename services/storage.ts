@@ -0,0 +1,235 @@
+import { AppSettings, DetectionRecord } from '../types';
+import { DEFAULT_SETTINGS, LEGACY_TEMPLATE_ID, LEGACY_TEMPLATE_LABEL, createTemplate, normalizeSettings } from './settings';
+import { LEGACY_FEATURE_VERSION } from './features';
+import { FFT_SIZES } from './dsp';
+
+/**
+ * 带版本号的本地持久化。配置以 { version, settings } 形式保存，读取时按顺序
+ * 执行迁移步骤升级到当前版本，再做结构校验；任何一步失败都回退到默认配置，
+ * 原始内容另存一份以便排查，不会因为存储损坏导致应用无法启动。
+ *
+ * 版本约定：
+ *   0 - 旧版单文件应用 (index.tsx) 的 audio_pulse_config_v4，阈值为相似度
+ *   1 - 引入版本号之前的 audio_pulse_settings，可能仍是单一参考样本的结构；
+ *       旧版 htm 页面 (index.js) 的 audio_pulse_config_v8 只保留冷却时间与 Webhook 地址后也按此版本处理
+ *   2 - 模板库结构，阈值为距离
+ */
+
+export const SETTINGS_KEY = 'audio_pulse_settings';
+const CORRUPT_SETTINGS_KEY = 'audio_pulse_settings_corrupt';
+const V4_CONFIG_KEY = 'audio_pulse_config_v4';
+export const V4_HISTORY_KEY = 'audio_pulse_history_v4';
+const V8_CONFIG_KEY = 'audio_pulse_config_v8';
+export const V8_HISTORY_KEY = 'audio_pulse_history_v8';
+
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+interface Migration {
+  to: number;
+  migrate: (data: any) => any;
+}
+
+// 按目标版本升序排列，每一步只负责相邻两个版本之间的转换
+const MIGRATIONS: Migration[] = [
+  {
+    // 相似度阈值换算为距离阈值 (距离 = 1 - 相似度)，字段改为旧版单一参考样本结构
+    to: 1,
+    migrate: (v4: any) => ({
+      referenceFingerprint: v4.fingerprint ?? null,
+      threshold: typeof v4.threshold === 'number' ? Math.max(0.01, 1 - v4.threshold) : undefined,
+      cooldownSeconds: v4.cooldown
+    })
+  },
+  {
+    // 单一参考样本转为模板库，并标记旧版线性频带指纹
+    to: 2,
+    migrate: (saved: any) => {
+      const { referenceFingerprint, threshold, cooldownSeconds, ...rest } = saved;
+      if (Array.isArray(saved.templates)) {
+        return {
+          ...rest,
+          templates: saved.templates.map((t: any) => ({ ...t, sequence: t?.sequence ?? null, featureVersion: t?.featureVersion || LEGACY_FEATURE_VERSION }))
+        };
+      }
+      const legacy = createTemplate(LEGACY_TEMPLATE_LABEL, {
+        id: LEGACY_TEMPLATE_ID,
+        fingerprint: referenceFingerprint ?? null,
+        featureVersion: LEGACY_FEATURE_VERSION,
+        threshold: threshold ?? 0.20,
+        cooldownSeconds: cooldownSeconds ?? 1.5
+      });
+      return { ...rest, templates: [legacy], activeTemplateId: legacy.id, meterTemplateId: legacy.id };
+    }
+  }
+];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isVector = (v: unknown): v is number[] => Array.isArray(v) && v.every(isNumber);
+
+// 逐项检查当前版本的配置结构，返回第一处错误；缺省字段由 normalizeSettings 补齐，不视为错误
+export const validateSettings = (s: any): string | null => {
+  if (!s || typeof s !== 'object') return '缺少配置内容';
+  if (!Array.isArray(s.templates)) return '模板列表格式错误';
+  for (const t of s.templates) {
+    if (!t || typeof t.id !== 'string' || typeof t.label !== 'string') return '模板缺少 ID 或名称';
+    if (!isNumber(t.threshold) || t.threshold <= 0 || t.threshold > 1) return `模板「${t.label}」的阈值无效`;
+    if (!isNumber(t.cooldownSeconds) || t.cooldownSeconds < 0) return `模板「${t.label}」的冷却时间无效`;
+    if (t.fingerprint !== null && !isVector(t.fingerprint)) return `模板「${t.label}」的指纹格式错误`;
+    if (t.sequence != null && !(Array.isArray(t.sequence) && t.sequence.every(isVector))) return `模板「${t.label}」的参考序列格式错误`;
+    if (typeof t.featureVersion !== 'string') return `模板「${t.label}」缺少特征版本`;
+    if (t.analysis !== undefined && !(t.analysis && isNumber(t.analysis.fftSize) && isNumber(t.analysis.smoothing))) return `模板「${t.label}」的频谱参数无效`;
+  }
+  const ids = new Set(s.templates.map((t: any) => t.id));
+  if (ids.size !== s.templates.length) return '模板 ID 重复';
+  if (s.activeTemplateId != null && !ids.has(s.activeTemplateId)) return '当前模板不存在';
+  if (s.meterTemplateId != null && !ids.has(s.meterTemplateId)) return '燃气表模板不存在';
+  if (s.matchMode !== undefined && s.matchMode !== 'frame' && s.matchMode !== 'sequence') return '比对模式无效';
+  for (const key of ['volumePerClick', 'initialMeterReading', 'historyRetentionDays']) {
+    if (s[key] !== undefined && (!isNumber(s[key]) || s[key] < 0)) return `${key} 数值无效`;
+  }
+  for (const key of ['haWebhookUrl', 'mqttBrokerUrl', 'mqttUsername', 'mqttPassword', 'mqttTopicPrefix']) {
+    if (s[key] !== undefined && typeof s[key] !== 'string') return `${key} 格式错误`;
+  }
+  for (const key of ['analysis', 'features', 'onset', 'adaptive', 'clips', 'input']) {
+    if (s[key] === undefined) continue;
+    if (!s[key] || typeof s[key] !== 'object') return `${key} 格式错误`;
+    // 设备 ID 是唯一的字符串字段
+    const bad = Object.entries(s[key]).find(([k, v]) => !isNumber(v) && typeof v !== 'boolean' && !(key === 'input' && k === 'deviceId' && typeof v === 'string'));
+    if (bad) return `${key}.${bad[0]} 数值无效`;
+  }
+  if (s.analysis?.fftSize !== undefined && !FFT_SIZES.includes(s.analysis.fftSize)) return 'FFT 点数无效';
+  if (s.analysis?.smoothing !== undefined && (s.analysis.smoothing < 0 || s.analysis.smoothing >= 1)) return '频谱平滑系数无效';
+  return null;
+};
+
+/**
+ * 把任意版本的配置升级到当前版本并校验，失败时抛出错误。
+ * 本地存储与配置备份导入共用这一流程。
+ */
+export const migrateSettings = (data: unknown, version: number): AppSettings => {
+  if (!Number.isInteger(version) || version < 0) throw new Error('配置版本号无效');
+  if (version > SETTINGS_SCHEMA_VERSION) throw new Error('配置来自更新版本的应用，请先升级');
+  if (!data || typeof data !== 'object') throw new Error('缺少配置内容');
+  let current = data;
+  for (const step of MIGRATIONS) {
+    if (step.to > version) current = step.migrate(current);
+  }
+  const error = validateSettings(current);
+  if (error) throw new Error(error);
+  return normalizeSettings(current);
+};
+
+// 读取 JSON，解析失败返回 undefined 而不是抛出
+const readJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+// v8 的指纹是时域特征，与任何频谱指纹都不可比较；其阈值按「距离大于阈值」触发，与距离阈值含义相反。
+// 两者都不迁移，模板沿用默认阈值并需要重新录入参考样本
+const fromV8Config = (v8: any) => ({
+  referenceFingerprint: null,
+  cooldownSeconds: v8?.cooldown,
+  haWebhookUrl: v8?.webhookUrl
+});
+
+// 区分带版本号的新格式、无版本号的旧配置，以及只有 v8 / v4 旧页面配置的情况
+const readStoredSettings = (): { data: unknown; version: number } | null => {
+  if (localStorage.getItem(SETTINGS_KEY) !== null) {
+    const stored: any = readJson(SETTINGS_KEY);
+    if (stored && typeof stored === 'object' && Number.isInteger(stored.version) && 'settings' in stored) {
+      return { data: stored.settings, version: stored.version };
+    }
+    return { data: stored, version: 1 };
+  }
+  if (localStorage.getItem(V8_CONFIG_KEY) !== null) return { data: fromV8Config(readJson(V8_CONFIG_KEY)), version: 1 };
+  if (localStorage.getItem(V4_CONFIG_KEY) !== null) return { data: readJson(V4_CONFIG_KEY), version: 0 };
+  return null;
+};
+
+export const loadSettings = (): AppSettings => {
+  const stored = readStoredSettings();
+  if (!stored) return DEFAULT_SETTINGS;
+  try {
+    return migrateSettings(stored.data, stored.version);
+  } catch (err) {
+    console.warn('Stored settings invalid, falling back to defaults', err);
+    const raw = localStorage.getItem(SETTINGS_KEY) ?? localStorage.getItem(V8_CONFIG_KEY) ?? localStorage.getItem(V4_CONFIG_KEY);
+    if (raw !== null) localStorage.setItem(CORRUPT_SETTINGS_KEY, raw);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// 写入后新格式优先，v8 / v4 配置保留给迁移历史时换算阈值
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_SCHEMA_VERSION, settings }));
+  } catch (err) {
+    console.error('Save settings failed', err);
+  }
+};
+
+/**
+ * 读取不需要迁移的小型状态 (计数、候选事件等)。
+ * 内容缺失、无法解析或未通过校验时返回 fallback。
+ */
+export const loadJson = <T>(key: string, fallback: T, isValid: (value: any) => boolean): T => {
+  const value = readJson(key);
+  if (value === undefined) return fallback;
+  if (!isValid(value)) {
+    console.warn(`Stored ${key} invalid, ignored`);
+    return fallback;
+  }
+  return value as T;
+};
+
+export const isRecordArray = (value: any): boolean =>
+  Array.isArray(value) && value.every(r => r && typeof r.id === 'string' && isNumber(r.timestamp));
+
+export const isCountMap = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isNumber);
+
+// v4 记录只有相似度，按距离 = 1 - 相似度换算，归入迁移出来的模板
+const fromV4Match = (match: any, threshold: number): DetectionRecord | null => {
+  if (!match || typeof match.id !== 'string' || !isNumber(match.time) || !isNumber(match.confidence)) return null;
+  return {
+    id: match.id,
+    timestamp: match.time,
+    distance: 1 - match.confidence,
+    threshold,
+    templateId: LEGACY_TEMPLATE_ID,
+    templateLabel: LEGACY_TEMPLATE_LABEL
+  };
+};
+
+// 读取 v4 单文件应用的检测历史，无法识别的条目跳过
+export const loadV4History = (): DetectionRecord[] => {
+  const matches = readJson(V4_HISTORY_KEY);
+  if (!Array.isArray(matches)) return [];
+  const config: any = readJson(V4_CONFIG_KEY);
+  const threshold = isNumber(config?.threshold) ? 1 - config.threshold : 0.12;
+  return matches.map(m => fromV4Match(m, threshold)).filter((r): r is DetectionRecord => r !== null);
+};
+
+// v8 记录直接保存距离，阈值取 v8 配置中的距离阈值
+export const loadV8History = (): DetectionRecord[] => {
+  const hits = readJson(V8_HISTORY_KEY);
+  if (!Array.isArray(hits)) return [];
+  const config: any = readJson(V8_CONFIG_KEY);
+  const threshold = isNumber(config?.threshold) ? config.threshold : 0.15;
+  return hits
+    .filter(h => h && typeof h.id === 'string' && isNumber(h.time) && isNumber(h.distance))
+    .map(h => ({
+      id: h.id,
+      timestamp: h.time,
+      distance: h.distance,
+      threshold,
+      templateId: LEGACY_TEMPLATE_ID,
+      templateLabel: LEGACY_TEMPLATE_LABEL
+    }));
+};
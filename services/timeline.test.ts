@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DistanceTimeline, TIMELINE_BUCKET_MS } from './timeline';
+
+const T0 = 1_700_000_000_000; // 10 秒整点
+
+describe('DistanceTimeline', () => {
+  it('同一分桶内取最小距离，曲线只包含有距离的分桶', () => {
+    const timeline = new DistanceTimeline();
+    timeline.push(T0, { a: 0.6 }, { a: 0.2 });
+    timeline.push(T0 + 500, { a: 0.4 }, { a: 0.15 });
+    timeline.push(T0 + TIMELINE_BUCKET_MS, {}, { a: 0.2 });
+    timeline.push(T0 + 2 * TIMELINE_BUCKET_MS, { a: 0.8 }, { a: 0.2 });
+    const series = timeline.series('a', 0.2, true, 60_000, T0 + 10_000);
+    expect(series.map(f => f.distance)).toEqual([0.4, 0.8]);
+    expect(series[0].adaptiveThreshold).toBe(0.15);
+  });
+
+  it('只交出已结束且未保存过的分桶，并降采样到 10 秒', () => {
+    const timeline = new DistanceTimeline();
+    for (let t = 0; t < 14_000; t += 1000) timeline.push(T0 + t, { a: 0.9 - t / 100_000 }, { a: 0.2 });
+    const first = timeline.takeUnsaved(T0 + 13_000);
+    expect(first.map(b => b.start)).toEqual([T0, T0 + 10_000]);
+    expect(first[0].distances.a).toBeCloseTo(0.9 - 9_000 / 100_000);
+    expect(timeline.takeUnsaved(T0 + 13_000)).toEqual([]);
+    const second = timeline.takeUnsaved(T0 + 20_000);
+    expect(second.map(b => b.start)).toEqual([T0 + 10_000]);
+  });
+
+  it('载入保存的分桶后可回看，且不会再次交出', () => {
+    const timeline = new DistanceTimeline();
+    timeline.push(T0 + 60_000, { a: 0.5 }, {});
+    timeline.restore([{ start: T0, distances: { a: 0.3 }, thresholds: {} }, { start: T0 + 70_000, distances: { a: 0.1 }, thresholds: {} }]);
+    expect(timeline.series('a', 0.2, false, 120_000, T0 + 80_000).map(f => f.distance)).toEqual([0.3, 0.5]);
+    expect(timeline.takeUnsaved(T0 + 80_000).map(b => b.start)).toEqual([T0 + 60_000]);
+  });
+});
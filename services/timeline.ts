@@ -0,0 +1,128 @@
+import { AudioFrame } from '../types';
+import { TIMELINE_STORE, withStore, withTransaction } from './db';
+
+// 长时段距离曲线：按固定时长分桶保存各模板的最小距离，供历史时间轴缩放查看。
+// 内存中保留最近 12 小时的细粒度分桶，已结束的分桶降采样后写入 IndexedDB，重新打开页面后仍可回看。
+
+export const TIMELINE_BUCKET_MS = 2000;
+const TIMELINE_MAX_MS = 12 * 60 * 60 * 1000;
+// 写入 IndexedDB 时的分桶时长，12 小时约 4000 条
+const STORED_BUCKET_MS = 10000;
+
+// 时间轴可选的回看时长
+export const TIMELINE_SPANS: { label: string; ms: number }[] = [
+  { label: '10分钟', ms: 10 * 60 * 1000 },
+  { label: '1小时', ms: 60 * 60 * 1000 },
+  { label: '6小时', ms: 6 * 60 * 60 * 1000 },
+  { label: '12小时', ms: TIMELINE_MAX_MS }
+];
+
+// 图表上最多绘制的点数，长时段按时间段再合并
+export const TIMELINE_MAX_POINTS = 400;
+
+export interface TimelineBucket {
+  start: number;
+  distances: Record<string, number>;
+  thresholds: Record<string, number>;
+}
+
+// 把 source 合并进 target，距离与阈值都取最小值
+const mergeBucket = (target: TimelineBucket, source: Pick<TimelineBucket, 'distances' | 'thresholds'>) => {
+  for (const [id, distance] of Object.entries(source.distances)) {
+    target.distances[id] = Math.min(target.distances[id] ?? 1.0, distance);
+  }
+  for (const [id, threshold] of Object.entries(source.thresholds)) {
+    target.thresholds[id] = Math.min(target.thresholds[id] ?? threshold, threshold);
+  }
+  return target;
+};
+
+export class DistanceTimeline {
+  private buckets: TimelineBucket[] = [];
+  // 早于该时刻的分桶已交给调用方保存
+  private savedUntil = 0;
+
+  push(timestamp: number, distances: Record<string, number>, thresholds: Record<string, number>) {
+    const start = timestamp - (timestamp % TIMELINE_BUCKET_MS);
+    let bucket = this.buckets[this.buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, distances: {}, thresholds: {} };
+      this.buckets.push(bucket);
+      const expired = this.buckets.findIndex(b => b.start >= timestamp - TIMELINE_MAX_MS);
+      if (expired > 0) this.buckets.splice(0, expired);
+    }
+    mergeBucket(bucket, { distances, thresholds });
+  }
+
+  // 放入上次运行保存的分桶，只取早于内存中最早分桶的部分
+  restore(stored: TimelineBucket[]) {
+    const first = this.buckets[0]?.start ?? Infinity;
+    const older = stored.filter(b => b.start < first).sort((a, b) => a.start - b.start);
+    if (older.length === 0) return;
+    this.buckets.unshift(...older);
+    this.savedUntil = Math.max(this.savedUntil, Math.min(first, older[older.length - 1].start + STORED_BUCKET_MS));
+  }
+
+  // 取出上次保存之后已结束的分桶，按 STORED_BUCKET_MS 合并后交给调用方写入
+  takeUnsaved(now = Date.now()): TimelineBucket[] {
+    const out: TimelineBucket[] = [];
+    for (const bucket of this.buckets) {
+      if (bucket.start < this.savedUntil || bucket.start + TIMELINE_BUCKET_MS > now) continue;
+      const start = bucket.start - (bucket.start % STORED_BUCKET_MS);
+      let target = out[out.length - 1];
+      if (!target || target.start !== start) {
+        target = { start, distances: {}, thresholds: {} };
+        out.push(target);
+      }
+      mergeBucket(target, bucket);
+      this.savedUntil = bucket.start + TIMELINE_BUCKET_MS;
+    }
+    return out.filter(b => Object.keys(b.distances).length > 0);
+  }
+
+  /**
+   * 取最近 spanMs 内指定模板的曲线。点数超过上限时按时间段合并，
+   * 每段取最小距离，短暂的咔哒尖峰在缩小查看时也不会被平均掉。
+   */
+  series(templateId: string, threshold: number, adaptive: boolean, spanMs: number, now = Date.now()): AudioFrame[] {
+    const since = now - spanMs;
+    const step = Math.max(TIMELINE_BUCKET_MS, Math.ceil(spanMs / TIMELINE_MAX_POINTS / TIMELINE_BUCKET_MS) * TIMELINE_BUCKET_MS);
+    const frames: AudioFrame[] = [];
+    for (const bucket of this.buckets) {
+      if (bucket.start < since || bucket.distances[templateId] === undefined) continue;
+      const start = bucket.start - (bucket.start % step);
+      const distance = bucket.distances[templateId];
+      const effective = bucket.thresholds[templateId];
+      const last = frames[frames.length - 1];
+      if (last && last.timestamp === start) {
+        last.distance = Math.min(last.distance, distance);
+        if (adaptive && effective !== undefined) last.adaptiveThreshold = Math.min(last.adaptiveThreshold ?? effective, effective);
+        continue;
+      }
+      frames.push({
+        time: new Date(start).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+        timestamp: start,
+        distance,
+        threshold,
+        adaptiveThreshold: adaptive ? effective : undefined
+      });
+    }
+    return frames;
+  }
+}
+
+export const loadTimelineBuckets = (since = Date.now() - TIMELINE_MAX_MS) =>
+  withStore<TimelineBucket[]>(TIMELINE_STORE, 'readonly', store => store.getAll(IDBKeyRange.lowerBound(since)));
+
+// 与已保存的同一时段合并，同时删除超出回看时长的旧分桶
+export const saveTimelineBuckets = (buckets: TimelineBucket[], now = Date.now()) =>
+  withTransaction([TIMELINE_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(TIMELINE_STORE);
+    store.delete(IDBKeyRange.upperBound(now - TIMELINE_MAX_MS, true));
+    for (const bucket of buckets) {
+      const request = store.get(bucket.start);
+      request.onsuccess = () => {
+        store.put(request.result ? mergeBucket(request.result, bucket) : bucket);
+      };
+    }
+  });
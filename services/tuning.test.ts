@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionRecord, EventLabel } from '../types';
+import { recommendCooldown, tuneThreshold } from './tuning';
+
+let nextId = 0;
+const record = (distance: number, label: EventLabel | undefined, timestamp = 0, templateId = 'a'): DetectionRecord => ({
+  id: String(nextId++),
+  timestamp,
+  distance,
+  threshold: 0.2,
+  templateId,
+  templateLabel: '燃气表',
+  label
+});
+
+describe('tuneThreshold', () => {
+  it('标注不足时不给出推荐', () => {
+    const records = [record(0.1, 'click'), record(0.12, 'click'), record(0.3, 'noise')];
+    expect(tuneThreshold(records, [], 'a', 1.5)).toBeNull();
+    expect(tuneThreshold([...records, record(0.11, 'click')], [], 'b', 1.5)).toBeNull();
+  });
+
+  it('在 F1 最高的阈值区间内取中点', () => {
+    const records = [record(0.1, 'click'), record(0.12, 'click'), record(0.3, 'noise'), record(0.2, undefined)];
+    const candidates = [record(0.15, 'click'), record(0.35, 'noise')];
+    const result = tuneThreshold(records, candidates, 'a', 1.5)!;
+    expect(result.clicks).toBe(3);
+    expect(result.noise).toBe(2);
+    // 0.15 到 0.29 之间全部正确
+    expect(result.recommended.threshold).toBe(0.22);
+    expect(result.recommended).toMatchObject({ precision: 1, recall: 1, falsePositives: 0, falseNegatives: 0 });
+    expect(result.points[0].threshold).toBe(0.05);
+    expect(result.points[result.points.length - 1].threshold).toBe(0.5);
+  });
+
+  it('真实咔哒与噪声距离重叠时在误报与漏报之间折中', () => {
+    const records = [record(0.1, 'click'), record(0.2, 'click'), record(0.3, 'click'), record(0.15, 'noise')];
+    const { recommended } = tuneThreshold(records, [], 'a', 1.5)!;
+    expect(recommended.recall).toBe(1);
+    expect(recommended.falsePositives).toBe(1);
+    expect(recommended.threshold).toBeGreaterThanOrEqual(0.3);
+  });
+});
+
+describe('recommendCooldown', () => {
+  it('冷却时间覆盖真实咔哒后的双重触发间隔，并按滑块步长取整', () => {
+    const records = [record(0.1, 'click', 0), record(0.25, 'noise', 700), record(0.1, 'click', 10000), record(0.1, 'click', 20000)];
+    expect(recommendCooldown(records, [], 'a', 0.5)).toBe(1);
+  });
+
+  it('不超过相邻真实咔哒最短间隔的一定比例', () => {
+    const records = [record(0.1, 'click', 0), record(0.25, 'noise', 1800), record(0.1, 'click', 2000)];
+    expect(recommendCooldown(records, [], 'a', 3)).toBe(1.5);
+  });
+
+  it('没有双重触发时沿用当前冷却时间', () => {
+    const records = [record(0.1, 'click', 0), record(0.1, 'click', 30000)];
+    expect(recommendCooldown(records, [], 'a', 2)).toBe(2);
+  });
+});
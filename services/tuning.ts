@@ -0,0 +1,124 @@
+import { DetectionRecord } from '../types';
+
+// 根据人工标注的检测记录与候选事件推荐阈值与冷却时间
+
+export interface OperatingPoint {
+  threshold: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  falsePositiveRate: number;
+}
+
+export interface TuningResult {
+  clicks: number; // 标注为真实咔哒的样本数
+  noise: number; // 标注为其他声音的样本数
+  points: OperatingPoint[]; // 按阈值从低到高排列
+  recommended: OperatingPoint;
+  cooldownSeconds: number;
+}
+
+// 与设置页阈值滑块的范围一致
+const MIN_THRESHOLD = 0.05;
+const MAX_THRESHOLD = 0.5;
+const THRESHOLD_STEP = 0.01;
+
+// 与设置页冷却滑块的范围和步长一致
+const MIN_COOLDOWN = 0.5;
+const MAX_COOLDOWN = 10;
+const COOLDOWN_STEP = 0.5;
+
+// 推荐所需的最少标注数
+export const MIN_LABELED_CLICKS = 3;
+export const MIN_LABELED_NOISE = 1;
+
+// 冷却时间推荐：在双重触发间隔上留出的余量，以及不超过相邻真实咔哒最短间隔的比例
+const COOLDOWN_MARGIN = 0.2;
+const COOLDOWN_MAX_RATIO = 0.8;
+
+const f1 = (p: OperatingPoint) => (p.precision + p.recall > 0 ? (2 * p.precision * p.recall) / (p.precision + p.recall) : 0);
+
+/**
+ * 遍历阈值，统计各工作点的正确、误报与漏报数。
+ * 检测记录与候选事件都携带比对距离，阈值变化时按距离重新判断是否触发。
+ */
+export const tuneThreshold = (
+  records: DetectionRecord[],
+  candidates: DetectionRecord[],
+  templateId: string,
+  currentCooldown: number
+): TuningResult | null => {
+  const labeled = [...records, ...candidates].filter(r => r.templateId === templateId && r.label);
+  const clicks = labeled.filter(r => r.label === 'click');
+  const noise = labeled.filter(r => r.label === 'noise');
+  if (clicks.length < MIN_LABELED_CLICKS || noise.length < MIN_LABELED_NOISE) return null;
+
+  const points: OperatingPoint[] = [];
+  for (let t = MIN_THRESHOLD; t <= MAX_THRESHOLD + 1e-9; t += THRESHOLD_STEP) {
+    const threshold = Math.round(t * 100) / 100;
+    const truePositives = clicks.filter(r => r.distance <= threshold).length;
+    const falsePositives = noise.filter(r => r.distance <= threshold).length;
+    const falseNegatives = clicks.length - truePositives;
+    points.push({
+      threshold,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1,
+      recall: truePositives / clicks.length,
+      falsePositiveRate: falsePositives / noise.length
+    });
+  }
+
+  // F1 最高的工作点可能是一段连续区间，取区间中点，给两侧留出余量
+  const bestF1 = Math.max(...points.map(f1));
+  const best = points.filter(p => f1(p) >= bestF1 - 1e-9);
+  const recommended = best[Math.floor((best.length - 1) / 2)];
+
+  return {
+    clicks: clicks.length,
+    noise: noise.length,
+    points,
+    recommended,
+    cooldownSeconds: recommendCooldown(records, candidates, templateId, currentCooldown)
+  };
+};
+
+/**
+ * 冷却时间：误报紧跟在真实咔哒之后通常是同一次咔哒的双重触发，冷却需覆盖该间隔；
+ * 同时不能超过相邻真实咔哒的最短间隔，否则会吞掉快速连续的咔哒。
+ */
+export const recommendCooldown = (
+  records: DetectionRecord[],
+  candidates: DetectionRecord[],
+  templateId: string,
+  currentCooldown: number
+): number => {
+  const clickTimes = [...records, ...candidates]
+    .filter(r => r.templateId === templateId && r.label === 'click')
+    .map(r => r.timestamp)
+    .sort((a, b) => a - b);
+  const falseTimes = records
+    .filter(r => r.templateId === templateId && r.label === 'noise')
+    .map(r => r.timestamp);
+
+  let minInterval = Infinity;
+  for (let i = 1; i < clickTimes.length; i++) {
+    minInterval = Math.min(minInterval, (clickTimes[i] - clickTimes[i - 1]) / 1000);
+  }
+
+  let doubleGap = 0;
+  for (const t of falseTimes) {
+    const previous = clickTimes.filter(c => c < t).pop();
+    if (previous === undefined) continue;
+    const gap = (t - previous) / 1000;
+    if (gap < minInterval) doubleGap = Math.max(doubleGap, gap);
+  }
+
+  const cooldown = doubleGap > 0 ? Math.max(currentCooldown, doubleGap + COOLDOWN_MARGIN) : currentCooldown;
+  const ceiling = Math.floor((minInterval * COOLDOWN_MAX_RATIO) / COOLDOWN_STEP) * COOLDOWN_STEP;
+  const stepped = Math.ceil(cooldown / COOLDOWN_STEP - 1e-9) * COOLDOWN_STEP;
+  return Math.max(MIN_COOLDOWN, Math.min(MAX_COOLDOWN, ceiling, stepped));
+};
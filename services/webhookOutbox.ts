@@ -0,0 +1,158 @@
+import { DeliveryState, DetectionRecord } from '../types';
+import { OUTBOX_STORE, withStore } from './db';
+import { buildDetectionPayload, postToHomeAssistant } from './haService';
+
+interface OutboxEntry {
+  id: string;
+  payload: Record<string, unknown>;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  event?: boolean; // 检测记录以外的事件，不回报投递状态
+}
+
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+// 被服务端拒绝 (4xx) 达到这么多次后放弃，重发同样的内容不会有不同结果
+const MAX_REJECTED_ATTEMPTS = 3;
+
+// 指数退避并加入少量抖动，避免网络恢复时集中重发
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * Math.pow(2, attempts - 1));
+  return delay * (0.8 + Math.random() * 0.4);
+};
+
+/**
+ * 持久化的 Webhook 发送队列。
+ * 检测记录先写入 IndexedDB，发送成功后才移除；失败或离线时按退避策略重试，
+ * 页面重新打开后会继续投递上次未完成的记录。
+ * 网络错误或服务端故障时整个队列一起退避，被服务端拒绝的单条记录各自退避，多次被拒后放弃。
+ */
+export class WebhookOutbox {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private flushRequested = false;
+  private running = false;
+  // 队列整体的退避：连续因网络或服务端故障失败的轮数与下次允许发送的时刻
+  private queueFailures = 0;
+  private pausedUntil = 0;
+
+  constructor(
+    private getWebhookUrl: () => string,
+    private onStateChange: (id: string, state: DeliveryState) => void
+  ) {}
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    window.addEventListener('online', this.handleOnline);
+    this.flush();
+  }
+
+  // 网络恢复或地址变更时取消整体退避，立即重发
+  retryNow() {
+    this.queueFailures = 0;
+    this.pausedUntil = 0;
+    this.flush();
+  }
+
+  stop() {
+    this.running = false;
+    window.removeEventListener('online', this.handleOnline);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  async enqueue(record: DetectionRecord) {
+    await this.put({ id: record.id, payload: buildDetectionPayload(record), createdAt: record.timestamp, attempts: 0, nextAttemptAt: Date.now() });
+  }
+
+  // 检测记录以外的事件 (如音频中断)，id 需稳定且唯一，重复入队时覆盖同一条
+  async enqueuePayload(id: string, payload: Record<string, unknown>, createdAt: number) {
+    await this.put({ id, payload, createdAt, attempts: 0, nextAttemptAt: Date.now(), event: true });
+  }
+
+  private async put(entry: OutboxEntry) {
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+    this.notify(entry, 'pending');
+    this.flush();
+  }
+
+  private notify(entry: OutboxEntry, state: DeliveryState) {
+    if (!entry.event) this.onStateChange(entry.id, state);
+  }
+
+  async flush() {
+    if (!this.running) return;
+    if (this.flushing) {
+      this.flushRequested = true;
+      return;
+    }
+    this.flushing = true;
+    let entries: OutboxEntry[] = [];
+    try {
+      entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+      const url = this.getWebhookUrl();
+      // 未配置地址或离线时不轮询，等待地址变更或 online 事件再触发
+      if (!url || !navigator.onLine) {
+        entries = [];
+        return;
+      }
+      if (Date.now() < this.pausedUntil) return;
+
+      const due = entries
+        .filter(e => e.nextAttemptAt <= Date.now())
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const entry of due) {
+        const result = await postToHomeAssistant(url, entry.payload);
+        if (result === 'sent') {
+          this.queueFailures = 0;
+          await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(entry.id));
+          entries = entries.filter(e => e.id !== entry.id);
+          this.notify(entry, 'sent');
+          continue;
+        }
+        entry.attempts += 1;
+        if (result === 'rejected' && entry.attempts >= MAX_REJECTED_ATTEMPTS) {
+          await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(entry.id));
+          entries = entries.filter(e => e.id !== entry.id);
+          console.warn('Webhook entry rejected, giving up', entry.id);
+          this.notify(entry, 'failed');
+          continue;
+        }
+        entry.nextAttemptAt = Date.now() + retryDelay(entry.attempts);
+        await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+        this.notify(entry, 'retrying');
+        // 网络或服务端故障时其余记录同样发不出去，结束本轮并整体退避
+        if (result === 'unreachable') {
+          this.queueFailures += 1;
+          this.pausedUntil = Date.now() + retryDelay(this.queueFailures);
+          break;
+        }
+      }
+    } catch (err) {
+      console.warn('Webhook outbox flush failed', err);
+    } finally {
+      this.flushing = false;
+      if (this.flushRequested) {
+        this.flushRequested = false;
+        this.flush();
+      } else {
+        this.scheduleNext(entries);
+      }
+    }
+  }
+
+  private scheduleNext(entries: OutboxEntry[]) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!this.running || entries.length === 0) return;
+    const next = Math.max(this.pausedUntil, Math.min(...entries.map(e => e.nextAttemptAt)));
+    this.timer = setTimeout(() => this.flush(), Math.max(1000, next - Date.now()));
+  }
+
+  private handleOnline = () => {
+    this.retryNow();
+  };
+}
@@ -1,17 +1,67 @@
-const CACHE_NAME = 'audiopulse-v16';
+// 离线优先的 Service Worker。构建时由 vite.config.ts 注入版本号与预缓存清单，
+// 版本号随构建产物内容变化，旧版本的缓存在新版本激活时删除。
+const VERSION = '__BUILD_VERSION__';
+const PRECACHE_URLS = ['__PRECACHE_URLS__'];
 
+const CACHE_PREFIX = 'audiopulse-';
+const PRECACHE = `${CACHE_PREFIX}precache-${VERSION}`;
+// 应用自身的样式与图标均随构建预缓存，其余跨域资源在首次联网访问时缓存
+const RUNTIME = `${CACHE_PREFIX}runtime`;
+
+// 不调用 skipWaiting：新版本安装后等待页面确认再接管，避免监听中途被刷新
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
+  event.waitUntil(
+    caches.open(PRECACHE).then((cache) =>
+      cache.addAll(PRECACHE_URLS.map((url) => new Request(url, { cache: 'reload' })))
+    )
+  );
 });
 
 self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.keys().then((keys) => Promise.all(keys.map(k => caches.delete(k))))
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
   );
-  self.clients.claim();
 });
 
+self.addEventListener('message', (event) => {
+  if (event.data === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// 缓存优先，缓存未命中时再走网络并补存一份
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
 self.addEventListener('fetch', (event) => {
-  // Pass-through during dev to avoid MIME type caching issues
-  event.respondWith(fetch(event.request));
-});
\ No newline at end of file
+  const { request } = event;
+  // Webhook 推送等非 GET 请求直接走网络
+  if (request.method !== 'GET') return;
+
+  // 页面导航一律返回预缓存的应用外壳，断网时也能启动
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.open(PRECACHE)
+        .then((cache) => cache.match('index.html'))
+        .then((shell) => shell || fetch(request))
+    );
+    return;
+  }
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (!sameOrigin && url.protocol !== 'https:') return;
+  event.respondWith(cacheFirst(request, sameOrigin ? PRECACHE : RUNTIME));
+});
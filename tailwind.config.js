@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  // 构建时按源码中用到的类名生成样式，不再依赖运行时 CDN 脚本
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './services/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -1,20 +1,117 @@
 
+// retrying 为暂时失败、稍后重发；failed 为服务端多次拒绝后放弃
+export type DeliveryState = 'pending' | 'sent' | 'retrying' | 'failed';
+
+// 人工标注：click 为真实咔哒 (检测记录中即正确检测，候选事件中即漏检)，noise 为其他声音
+export type EventLabel = 'click' | 'noise';
+
 export interface DetectionRecord {
   id: string;
   timestamp: number;
   distance: number;
   threshold: number;
+  templateId: string;
+  templateLabel: string; // 触发时的模板名称，模板删除后仍可显示
+  delivery?: DeliveryState;
+  label?: EventLabel;
+  hasClip?: boolean; // 是否保存了触发前后的音频片段
 }
 
-export interface AppSettings {
+// 音频管线中断原因：上下文被挂起或关闭、麦克风音轨结束、设备被移除、分析帧停止或数据不再变化
+export type OutageReason = 'suspended' | 'closed' | 'track-ended' | 'device-lost' | 'stalled' | 'frozen';
+
+export interface AudioOutage {
+  id: string;
+  start: number;
+  end: number | null; // 恢复时刻，中断进行中为 null
+  reason: OutageReason; // 首次发现的原因
+  restarts: number; // 已尝试重新初始化的次数
+}
+
+export interface FeatureConfig {
+  minFreq: number; // Mel 滤波器组下限 (Hz)
+  maxFreq: number; // Mel 滤波器组上限 (Hz)
+  melBands: number;
+  coefficients: number; // MFCC 系数个数 (不含 c0)
+  deltas: boolean; // 是否附加一阶差分特征
+}
+
+// 频谱分析参数，与 AnalyserNode 的同名属性对应
+export interface AnalysisConfig {
+  fftSize: number;
+  smoothing: number; // smoothingTimeConstant
+}
+
+export interface SoundTemplate {
+  id: string;
+  label: string;
+  fingerprint: number[] | null;
+  sequence: number[][] | null; // 序列模式使用的参考帧序列
+  featureVersion: string; // 指纹的特征版本，版本不同的指纹不会被比较
+  analysis?: AnalysisConfig; // 录入时的频谱参数，缺省为默认参数；与当前设置不同时仍参与匹配但给出提示
   threshold: number;
-  haWebhookUrl: string;
   cooldownSeconds: number;
-  referenceFingerprint: number[] | null;
+}
+
+export type MatchMode = 'frame' | 'sequence';
+
+export interface AdaptiveThresholdConfig {
+  enabled: boolean;
+  deviations: number; // 阈值设在背景距离均值之下的标准差倍数
+}
+
+export interface OnsetConfig {
+  sensitivity: number; // 起音灵敏度 1-10，越高越容易触发
+  minFloorDb: number; // 噪声底下限 (dB)，安静环境下避免微小波动被当作起音
+}
+
+export interface ClipConfig {
+  enabled: boolean;
+  preSeconds: number; // 触发前保留的时长
+  postSeconds: number; // 触发后继续录制的时长
+  maxStorageMb: number; // 片段总占用上限，超出后删除最早的片段
+}
+
+export interface InputConfig {
+  deviceId: string; // 选择的麦克风，空字符串为系统默认设备
+  gainDb: number; // 软件输入增益 (dB)，作用于分析与片段录制之前
+  bandPass: boolean; // 是否在分析前做带通滤波
+  lowCutHz: number;
+  highCutHz: number;
+}
+
+export interface AppSettings {
+  haWebhookUrl: string;
+  matchMode: MatchMode; // 单帧余弦比对或时间序列 DTW 比对
+  templates: SoundTemplate[];
+  activeTemplateId: string | null; // 图表与编辑器当前选中的模板
+  meterTemplateId: string | null; // 计入燃气表读数的模板
+  analysis: AnalysisConfig;
+  features: FeatureConfig;
+  onset: OnsetConfig; // 只在检测到起音时才进行指纹比对
+  adaptive: AdaptiveThresholdConfig; // 随背景噪声收紧阈值
+  mqttBrokerUrl: string;
+  mqttUsername: string;
+  mqttPassword: string;
+  mqttTopicPrefix: string;
+  volumePerClick: number; // 每次咔哒对应的用气量 (m³)
+  initialMeterReading: number; // 开始统计时表盘读数 (m³)
+  historyRetentionDays: number; // 原始检测记录保留天数，0 为永久保留；小时汇总始终保留
+  clips: ClipConfig; // 检测前后的音频片段，便于回放核对
+  input: InputConfig; // 麦克风选择与输入处理
+}
+
+export interface MeterCorrection {
+  id: string;
+  timestamp: number;
+  reading: number; // 校正时表盘实际读数
+  offset: number; // 相对计算读数的偏移量
 }
 
 export interface AudioFrame {
   time: string;
+  timestamp?: number; // 历史时间轴按真实时间绘制
   distance: number;
   threshold: number;
+  adaptiveThreshold?: number; // 自适应模式下该帧实际生效的阈值
 }
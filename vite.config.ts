@@ -1,15 +1,44 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// 构建时生成 sw.js：预缓存本次输出的全部文件与 public 目录，版本号取这些内容的哈希
+const serviceWorker = (): Plugin => ({
+  name: 'audio-pulse-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : [];
+    // index.html 的内联样式不影响资源文件名，单独计入哈希
+    const hash = createHash('sha256').update(fs.readFileSync(path.resolve(__dirname, 'index.html')));
+    for (const [fileName, output] of Object.entries(bundle).sort(([a], [b]) => a.localeCompare(b))) {
+      hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+    }
+    for (const file of publicFiles) {
+      hash.update(file).update(fs.readFileSync(path.join(publicDir, file)));
+    }
+    // 导航请求统一返回 index.html，无论 bundle 中是否已有都显式列入
+    const urls = [...new Set(['index.html', ...Object.keys(bundle).filter(f => !f.endsWith('.map')), ...publicFiles])];
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace("'__BUILD_VERSION__'", JSON.stringify(hash.digest('hex').slice(0, 12)))
+      .replace("['__PRECACHE_URLS__']", JSON.stringify(urls));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GitHub Pages 部署在仓库子路径下，资源一律使用相对路径
+      base: './',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)